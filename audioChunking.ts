@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Recordings above this size are decoded and re-sliced before upload;
+// smaller ones are sent as-is in a single request.
+export const CHUNKING_THRESHOLD_BYTES = 8 * 1024 * 1024;
+export const CHUNK_SECONDS = 300;
+// Speech is resampled to 16 kHz mono, which keeps a five-minute WAV chunk
+// around 9.6 MB — comfortably below the inline request limit once base64
+// encoded.
+export const CHUNK_SAMPLE_RATE = 16000;
+
+export interface AudioChunk {
+  blob: Blob;
+  // Position of the chunk within the full recording, in seconds.
+  offset: number;
+}
+
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(
+      offset,
+      clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff,
+      true,
+    );
+    offset += bytesPerSample;
+  }
+
+  return new Blob([buffer], {type: 'audio/wav'});
+}
+
+export function mixToMono(
+  audioBuffer: AudioBuffer,
+  start: number,
+  end: number,
+): Float32Array {
+  const mono = new Float32Array(end - start);
+  const channels = audioBuffer.numberOfChannels;
+  for (let c = 0; c < channels; c++) {
+    const data = audioBuffer.getChannelData(c).subarray(start, end);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / channels;
+  }
+  return mono;
+}
+
+export async function decodeAudio(
+  audioBlob: Blob,
+  sampleRate?: number,
+): Promise<AudioBuffer> {
+  const AudioContextClass =
+    window.AudioContext || (window as any).webkitAudioContext;
+  const context: AudioContext = new AudioContextClass(
+    sampleRate ? {sampleRate} : undefined,
+  );
+  try {
+    return await context.decodeAudioData(await audioBlob.arrayBuffer());
+  } finally {
+    context
+      .close()
+      .catch((e) => console.warn('Error closing audio context', e));
+  }
+}
+
+/**
+ * Splits a recording into time-based chunks small enough to send inline.
+ * If the browser cannot decode the file, the whole recording is returned as
+ * a single chunk and left to the API to accept or reject.
+ */
+export async function splitAudioIntoChunks(
+  audioBlob: Blob,
+): Promise<AudioChunk[]> {
+  if (audioBlob.size <= CHUNKING_THRESHOLD_BYTES) {
+    return [{blob: audioBlob, offset: 0}];
+  }
+
+  let audioBuffer: AudioBuffer;
+  try {
+    audioBuffer = await decodeAudio(audioBlob, CHUNK_SAMPLE_RATE);
+  } catch (error) {
+    console.warn('Could not decode audio for chunking:', error);
+    return [{blob: audioBlob, offset: 0}];
+  }
+
+  const samplesPerChunk = CHUNK_SECONDS * audioBuffer.sampleRate;
+  const chunks: AudioChunk[] = [];
+  for (let start = 0; start < audioBuffer.length; start += samplesPerChunk) {
+    const end = Math.min(start + samplesPerChunk, audioBuffer.length);
+    chunks.push({
+      blob: encodeWav(
+        mixToMono(audioBuffer, start, end),
+        audioBuffer.sampleRate,
+      ),
+      offset: start / audioBuffer.sampleRate,
+    });
+  }
+  return chunks;
+}
+
+/** Cuts mono samples into WAV chunks of at most CHUNK_SECONDS each. */
+export function chunkSamples(
+  samples: Float32Array,
+  sampleRate: number,
+): AudioChunk[] {
+  const samplesPerChunk = CHUNK_SECONDS * sampleRate;
+  const chunks: AudioChunk[] = [];
+  for (let start = 0; start < samples.length; start += samplesPerChunk) {
+    const end = Math.min(start + samplesPerChunk, samples.length);
+    chunks.push({
+      blob: encodeWav(samples.subarray(start, end), sampleRate),
+      offset: start / sampleRate,
+    });
+  }
+  return chunks;
+}
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  AudioChunk,
+  CHUNK_SAMPLE_RATE,
+  chunkSamples,
+  decodeAudio,
+  mixToMono,
+} from './audioChunking';
+import type {TranscriptResult} from './transcript';
+import type {TimeRange} from './types';
+
+// Loudness is measured over 20 ms windows.
+export const LEVEL_WINDOW_SECONDS = 0.02;
+// Pauses shorter than this are part of normal speech and are left alone.
+const MIN_SILENCE_SECONDS = 1.5;
+// Silence kept on each side of a cut, so the first and last syllables are
+// not clipped and the model still hears a pause.
+const CUT_PADDING_SECONDS = 0.3;
+// Trimming that saves less than this is not worth re-encoding the audio.
+const MIN_SAVING_SECONDS = 2;
+// Bounds for the silence threshold, in RMS of full scale (about -46 and
+// -34 dBFS).
+const MIN_THRESHOLD = 0.005;
+const MAX_THRESHOLD = 0.02;
+
+export interface RecordingAnalysis {
+  // Mono samples at CHUNK_SAMPLE_RATE, ready to be re-encoded.
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+  // RMS loudness of each LEVEL_WINDOW_SECONDS window.
+  levels: Float32Array;
+}
+
+// What the waveform draws, without the samples, which take about 230 MB
+// per hour of audio.
+export type RecordingLevels = Pick<RecordingAnalysis, 'levels' | 'duration'>;
+
+// A stretch of silence inside the recording; disabled cuts are kept.
+export interface TrimCut extends TimeRange {
+  enabled: boolean;
+}
+
+// What to send: everything between `start` and `end`, less enabled cuts.
+export interface TrimPlan {
+  start: number;
+  end: number;
+  cuts: TrimCut[];
+}
+
+export async function analyzeRecording(
+  audioBlob: Blob,
+): Promise<RecordingAnalysis> {
+  const audioBuffer = await decodeAudio(audioBlob, CHUNK_SAMPLE_RATE);
+  const samples = mixToMono(audioBuffer, 0, audioBuffer.length);
+  const sampleRate = audioBuffer.sampleRate;
+  const windowSize = Math.max(1, Math.round(LEVEL_WINDOW_SECONDS * sampleRate));
+  const levels = new Float32Array(Math.ceil(samples.length / windowSize));
+  for (let w = 0; w < levels.length; w++) {
+    const end = Math.min((w + 1) * windowSize, samples.length);
+    let sumSquares = 0;
+    for (let i = w * windowSize; i < end; i++) {
+      sumSquares += samples[i] * samples[i];
+    }
+    levels[w] = Math.sqrt(sumSquares / (end - w * windowSize));
+  }
+  return {samples, sampleRate, duration: samples.length / sampleRate, levels};
+}
+
+/**
+ * Picks the level below which a window counts as silence, from the room's
+ * noise floor (the quietest tenth of the recording), so a noisy room or a
+ * microphone with automatic gain still gets sensible cuts.
+ */
+function getSilenceThreshold(levels: Float32Array): number {
+  if (levels.length === 0) return MIN_THRESHOLD;
+  const sorted = Float32Array.from(levels).sort();
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  return Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, noiseFloor * 2.5));
+}
+
+/**
+ * Proposes a trim: silence at the start and end is dropped, and long pauses
+ * inside the recording are shortened to a brief gap.
+ */
+export function planTrim(analysis: RecordingAnalysis): TrimPlan {
+  const {levels, duration} = analysis;
+  const threshold = getSilenceThreshold(levels);
+  const minWindows = Math.round(MIN_SILENCE_SECONDS / LEVEL_WINDOW_SECONDS);
+  const plan: TrimPlan = {start: 0, end: duration, cuts: []};
+
+  let runStart = -1;
+  for (let w = 0; w <= levels.length; w++) {
+    const silent = w < levels.length && levels[w] < threshold;
+    if (silent) {
+      if (runStart < 0) runStart = w;
+      continue;
+    }
+    if (runStart < 0) continue;
+    const start = runStart * LEVEL_WINDOW_SECONDS;
+    const end = Math.min(duration, w * LEVEL_WINDOW_SECONDS);
+    const isLong = w - runStart >= minWindows;
+    runStart = -1;
+    if (!isLong) continue;
+
+    const atStart = start === 0;
+    const atEnd = w === levels.length;
+    // A recording that is silent throughout is sent whole, so the model
+    // rather than this heuristic decides there is nothing in it.
+    if (atStart && atEnd) continue;
+    if (atStart) {
+      plan.start = Math.max(0, end - CUT_PADDING_SECONDS);
+    } else if (atEnd) {
+      plan.end = Math.min(duration, start + CUT_PADDING_SECONDS);
+    } else {
+      plan.cuts.push({
+        start: start + CUT_PADDING_SECONDS,
+        end: end - CUT_PADDING_SECONDS,
+        enabled: true,
+      });
+    }
+  }
+  return plan;
+}
+
+/** The parts of the recording a plan keeps, in order. */
+export function getKeptRegions(plan: TrimPlan): TimeRange[] {
+  const regions: TimeRange[] = [];
+  let position = plan.start;
+  for (const cut of plan.cuts) {
+    if (!cut.enabled || cut.end <= position || cut.start >= plan.end) continue;
+    if (cut.start > position) regions.push({start: position, end: cut.start});
+    position = cut.end;
+  }
+  if (plan.end > position) regions.push({start: position, end: plan.end});
+  return regions.filter((region) => region.end - region.start > 0.05);
+}
+
+export function getTotalDuration(regions: TimeRange[]): number {
+  return regions.reduce((sum, region) => sum + region.end - region.start, 0);
+}
+
+/** True when trimming would not save enough to be worth it. */
+export function keepsWholeRecording(
+  regions: TimeRange[],
+  duration: number,
+): boolean {
+  return getTotalDuration(regions) > duration - MIN_SAVING_SECONDS;
+}
+
+/** Adds a range to a sorted list of ranges, merging any it overlaps. */
+export function addRange(ranges: TimeRange[], range: TimeRange): TimeRange[] {
+  const merged: TimeRange[] = [];
+  for (const current of [...ranges, range].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && current.start <= last.end) {
+      last.end = Math.max(last.end, current.end);
+    } else {
+      merged.push({...current});
+    }
+  }
+  return merged;
+}
+
+/** What is left of `regions` once the sorted `excluded` ranges are removed. */
+export function excludeRanges(
+  regions: TimeRange[],
+  excluded: TimeRange[],
+): TimeRange[] {
+  const result: TimeRange[] = [];
+  for (const region of regions) {
+    let position = region.start;
+    for (const range of excluded) {
+      if (range.end <= position || range.start >= region.end) continue;
+      if (range.start > position) {
+        result.push({start: position, end: range.start});
+      }
+      position = Math.max(position, range.end);
+    }
+    if (region.end > position) result.push({start: position, end: region.end});
+  }
+  return result;
+}
+
+/** The mono samples of the given regions, back to back. */
+export function joinRegions(
+  analysis: RecordingAnalysis,
+  regions: TimeRange[],
+): Float32Array {
+  const {samples, sampleRate} = analysis;
+  const ranges = regions.map((region) => [
+    Math.max(0, Math.floor(region.start * sampleRate)),
+    Math.min(samples.length, Math.ceil(region.end * sampleRate)),
+  ]);
+  const joined = new Float32Array(
+    ranges.reduce((sum, [start, end]) => sum + Math.max(0, end - start), 0),
+  );
+  let offset = 0;
+  for (const [start, end] of ranges) {
+    if (end <= start) continue;
+    joined.set(samples.subarray(start, end), offset);
+    offset += end - start;
+  }
+  return joined;
+}
+
+/** Joins the kept regions into upload-sized WAV chunks. */
+export function encodeKeptRegions(
+  analysis: RecordingAnalysis,
+  regions: TimeRange[],
+): AudioChunk[] {
+  return chunkSamples(joinRegions(analysis, regions), analysis.sampleRate);
+}
+
+/** Maps a time in the trimmed audio back to the original recording. */
+export function toOriginalTime(time: number, regions: TimeRange[]): number {
+  let elapsed = 0;
+  for (const region of regions) {
+    const length = region.end - region.start;
+    if (time <= elapsed + length) return region.start + time - elapsed;
+    elapsed += length;
+  }
+  const last = regions[regions.length - 1];
+  return last ? last.end : time;
+}
+
+/**
+ * Moves segment times from the trimmed audio the model heard to the saved
+ * recording, so playback and citations line up.
+ */
+export function restoreOriginalTimes(
+  result: TranscriptResult,
+  regions?: TimeRange[],
+): TranscriptResult {
+  if (!regions || regions.length === 0) return result;
+  return {
+    text: result.text,
+    segments: result.segments.map((segment) => ({
+      ...segment,
+      start: toOriginalTime(segment.start, regions),
+      end: toOriginalTime(segment.end, regions),
+    })),
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {formatTimestamp, getSpeakerName, parseTimeValue} from './transcript';
+import type {ChatMessage, Note} from './types';
+
+// A citation such as "[03:15]" or "[03:15 - 03:40]" in a model answer.
+const CITATION_PATTERN =
+  /\[(\d{1,2}:\d{2}(?::\d{2})?)(?:\s*[-–]\s*\d{1,2}:\d{2}(?::\d{2})?)?\]/g;
+
+/**
+ * Renders the note's transcript for the model. Timed transcripts get one
+ * "[mm:ss] Speaker: text" line per segment so answers can cite them.
+ */
+function formatTranscriptForChat(note: Note): string {
+  if (!note.segments || note.segments.length === 0) {
+    return note.rawTranscription;
+  }
+  return note.segments
+    .map((segment) => {
+      const speaker = segment.speaker
+        ? `${getSpeakerName(segment.speaker, note.speakerNames)}: `
+        : '';
+      return `[${formatTimestamp(segment.start)}] ${speaker}${segment.text}`;
+    })
+    .join('\n');
+}
+
+export function buildChatSystemInstruction(note: Note): string {
+  const hasTimestamps = !!note.segments && note.segments.length > 0;
+  const citationRule = hasTimestamps
+    ? 'When you use information from the transcript, cite the lines it comes from by their timestamp in square brackets, e.g. [03:15].'
+    : 'Quote short phrases from the transcript when it helps to show where an answer comes from.';
+  return `You answer questions about a recording, using only its transcript below.
+If the transcript does not contain the answer, say so plainly instead of guessing.
+${citationRule}
+Answer in the language of the question, concisely, using markdown where it helps.
+
+Title: ${note.title || 'Untitled'}
+
+Transcript:
+${formatTranscriptForChat(note)}`;
+}
+
+/**
+ * Turns timestamp citations in an answer into buttons that seek the note's
+ * audio. Runs on the markdown before it is rendered.
+ */
+export function linkCitations(markdown: string): string {
+  return markdown.replace(CITATION_PATTERN, (citation, start: string) => {
+    const seconds = parseTimeValue(start);
+    if (seconds === null) return citation;
+    return `<button class="chat-citation" data-time="${seconds}" title="Đến đoạn này">${citation.slice(1, -1)}</button>`;
+  });
+}
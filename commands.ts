@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {foldText} from './searchIndex';
+
+export interface Shortcut {
+  // Physical key (KeyboardEvent.code), so Alt combinations still match on
+  // macOS, where Option changes the character typed.
+  code?: string;
+  // Typed character, for punctuation whose position depends on the layout.
+  key?: string;
+  alt?: boolean;
+  shift?: boolean;
+  // Ctrl, or Cmd on macOS.
+  mod?: boolean;
+}
+
+export interface Command {
+  id: string;
+  label: string;
+  // Font Awesome icon class, e.g. "fa-microphone".
+  icon: string;
+  shortcut?: Shortcut;
+  run: () => void;
+  // Commands that cannot run right now are left out of the palette.
+  isAvailable?: () => boolean;
+}
+
+const IS_MAC = /Mac|iPhone|iPad/.test(navigator.platform);
+
+export function matchesShortcut(
+  event: KeyboardEvent,
+  shortcut: Shortcut,
+): boolean {
+  if (event.altKey !== !!shortcut.alt) return false;
+  if ((event.ctrlKey || event.metaKey) !== !!shortcut.mod) return false;
+  if (shortcut.key) return event.key === shortcut.key;
+  if (event.shiftKey !== !!shortcut.shift) return false;
+  return event.code === shortcut.code;
+}
+
+export function formatShortcut(shortcut: Shortcut): string {
+  const parts: string[] = [];
+  if (shortcut.mod) parts.push(IS_MAC ? '⌘' : 'Ctrl');
+  if (shortcut.alt) parts.push(IS_MAC ? '⌥' : 'Alt');
+  if (shortcut.shift) parts.push(IS_MAC ? '⇧' : 'Shift');
+  const key =
+    shortcut.key ||
+    (shortcut.code || '').replace(/^Key/, '').replace(/^Digit/, '');
+  parts.push(key.toUpperCase());
+  return parts.join(IS_MAC ? ' ' : '+');
+}
+
+/** True when keys typed at the target should be left to the user's typing. */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * A Ctrl+K list of every command, filtered as the user types. Matching
+ * ignores accents, like the note search.
+ */
+export class CommandPalette {
+  private matches: Command[] = [];
+  private activeIndex = 0;
+
+  constructor(
+    private overlay: HTMLDivElement,
+    private input: HTMLInputElement,
+    private list: HTMLUListElement,
+    private getCommands: () => Command[],
+  ) {
+    this.input.addEventListener('input', () => this.render());
+    this.input.addEventListener('keydown', (e) => this.handleKeydown(e));
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) this.close();
+    });
+  }
+
+  get isOpen(): boolean {
+    return this.overlay.classList.contains('is-visible');
+  }
+
+  open(): void {
+    this.input.value = '';
+    this.render();
+    this.overlay.classList.add('is-visible');
+    this.input.focus();
+  }
+
+  close(): void {
+    this.overlay.classList.remove('is-visible');
+  }
+
+  private render(): void {
+    const terms = foldText(this.input.value).split(/\s+/).filter(Boolean);
+    this.matches = this.getCommands().filter((command) => {
+      if (command.isAvailable && !command.isAvailable()) return false;
+      const label = foldText(command.label);
+      return terms.every((term) => label.includes(term));
+    });
+    this.activeIndex = 0;
+    this.list.innerHTML = '';
+
+    if (this.matches.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'command-palette-empty';
+      empty.textContent = 'Không có lệnh phù hợp.';
+      this.list.appendChild(empty);
+      return;
+    }
+    this.matches.forEach((command, index) => {
+      const item = document.createElement('li');
+      item.className = 'command-palette-item';
+      item.setAttribute('role', 'option');
+      const icon = document.createElement('i');
+      icon.className = `fas ${command.icon}`;
+      const label = document.createElement('span');
+      label.className = 'command-palette-label';
+      label.textContent = command.label;
+      item.append(icon, label);
+      if (command.shortcut) {
+        const shortcut = document.createElement('kbd');
+        shortcut.textContent = formatShortcut(command.shortcut);
+        item.appendChild(shortcut);
+      }
+      item.addEventListener('mousemove', () => this.setActive(index));
+      item.addEventListener('click', () => this.runMatch(index));
+      this.list.appendChild(item);
+    });
+    this.setActive(0);
+  }
+
+  private setActive(index: number): void {
+    this.activeIndex = index;
+    Array.from(this.list.children).forEach((item, i) =>
+      item.classList.toggle('active', i === index),
+    );
+    this.list.children[index]?.scrollIntoView({block: 'nearest'});
+  }
+
+  private handleKeydown(e: KeyboardEvent): void {
+    const count = this.matches.length;
+    if (e.key === 'ArrowDown' && count > 0) {
+      e.preventDefault();
+      this.setActive((this.activeIndex + 1) % count);
+    } else if (e.key === 'ArrowUp' && count > 0) {
+      e.preventDefault();
+      this.setActive((this.activeIndex - 1 + count) % count);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      this.runMatch(this.activeIndex);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close();
+    }
+  }
+
+  private runMatch(index: number): void {
+    const command = this.matches[index];
+    if (!command) return;
+    this.close();
+    // Run after the click that picked the command has finished bubbling, so
+    // menus opened by the command are not closed again by it.
+    setTimeout(() => command.run());
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {getPolishedMarkdown} from './exporters';
+import type {Note} from './types';
+
+export interface DigestStyle {
+  id: string;
+  name: string;
+  // Instructions sent to the model ahead of the source notes.
+  prompt: string;
+}
+
+export const DIGEST_STYLES: DigestStyle[] = [
+  {
+    id: 'standup',
+    name: 'Giao ban hằng ngày',
+    prompt: `Combine these voice notes into a daily stand-up update in markdown.
+Start with a level-one heading naming the day or period covered.
+Then include these sections, each as a level-two heading:
+- Done: what was finished or progressed.
+- Next: what is planned next.
+- Blockers: problems, risks or open questions; say "None" if there are none.
+Keep each bullet to one line.`,
+  },
+  {
+    id: 'weekly',
+    name: 'Báo cáo tuần',
+    prompt: `Combine these voice notes into a weekly report in markdown.
+Start with a level-one heading naming the period covered.
+Then include these sections, each as a level-two heading:
+- Highlights: the most important outcomes, in a short paragraph.
+- Progress by topic: a level-three heading per project or topic with bullet points.
+- Decisions: every decision that was made.
+- Open action items: a checklist ("- [ ] ...") with owners and due dates when they were stated.
+- Risks and open questions.`,
+  },
+  {
+    id: 'summary',
+    name: 'Tóm tắt chung',
+    prompt: `Combine these voice notes into one summary in markdown.
+Start with a level-one heading describing what the notes are about.
+Group related content by topic under level-two headings rather than repeating the notes one by one, and point out where notes repeat or contradict each other.`,
+  },
+];
+
+// Links from a digest back to its source notes look like "#note=<id>".
+const NOTE_LINK_PREFIX = '#note=';
+
+export function noteIdFromLink(href: string): string | null {
+  return href.startsWith(NOTE_LINK_PREFIX)
+    ? decodeURIComponent(href.slice(NOTE_LINK_PREFIX.length))
+    : null;
+}
+
+export interface DigestFilter {
+  // Inclusive local dates as "YYYY-MM-DD"; empty for no limit.
+  from: string;
+  to: string;
+  // Empty for any tag.
+  tag: string;
+}
+
+/** The local calendar date of a timestamp, in date input format. */
+export function toDateInputValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Notes that can go into a digest, oldest first. Digests themselves are left
+ * out so a weekly report is not built from the daily ones.
+ */
+export function filterDigestCandidates(
+  notes: Note[],
+  filter: DigestFilter,
+): Note[] {
+  return notes
+    .filter((note) => {
+      if (note.kind === 'digest') return false;
+      if (!note.polishedNote.trim() && !note.rawTranscription.trim()) {
+        return false;
+      }
+      const day = toDateInputValue(note.timestamp);
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+      return !filter.tag || !!note.tags?.includes(filter.tag);
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Every tag used in the library, for the digest's tag filter. */
+export function collectTags(notes: Note[]): string[] {
+  const tags = new Set<string>();
+  for (const note of notes) note.tags?.forEach((tag) => tags.add(tag));
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+function formatNoteDate(note: Note): string {
+  return new Date(note.timestamp).toLocaleString('vi-VN');
+}
+
+/**
+ * The source notes as the model sees them, numbered so the digest can cite
+ * them. Stored as the digest's raw text, so chat and export work on it too.
+ */
+export function buildDigestSource(notes: Note[]): string {
+  return notes
+    .map((note, i) => {
+      const content = getPolishedMarkdown(note).trim() || note.rawTranscription;
+      return `[${i + 1}] ${note.title || 'Ghi chú không tiêu đề'} (${formatNoteDate(note)})\n${content.trim()}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+export function buildDigestPrompt(
+  style: DigestStyle,
+  source: string,
+  languageInstruction?: string,
+): string {
+  const sections = [
+    style.prompt.trim(),
+    'The notes are numbered. After each point, cite the notes it comes from by number in square brackets, e.g. [2] or [1, 3]. Only use information from the notes.',
+  ];
+  if (languageInstruction) sections.push(languageInstruction);
+  return `${sections.join('\n\n')}
+
+Notes:
+${source}`;
+}
+
+/** Titles a digest after its style and the days its notes span. */
+export function buildDigestTitle(style: DigestStyle, notes: Note[]): string {
+  const format = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('vi-VN');
+  const first = format(notes[0].timestamp);
+  const last = format(notes[notes.length - 1].timestamp);
+  return `${style.name} ${first === last ? first : `${first} – ${last}`}`;
+}
+
+/** Adds the numbered list of source notes, linked, below a digest. */
+export function appendDigestSources(markdown: string, notes: Note[]): string {
+  const links = notes.map((note, i) => {
+    const title = (note.title || 'Ghi chú không tiêu đề').replace(
+      /[\[\]]/g,
+      '',
+    );
+    const href = NOTE_LINK_PREFIX + encodeURIComponent(note.id);
+    return `${i + 1}. [${title}](${href}) — ${formatNoteDate(note)}`;
+  });
+  return `${markdown.trim()}\n\n## Nguồn\n\n${links.join('\n')}\n`;
+}
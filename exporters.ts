@@ -0,0 +1,554 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {marked} from 'marked';
+import {getSpeakerName} from './transcript';
+import type {Note, TranscriptSegment} from './types';
+
+export type ExportFormat = 'md' | 'txt' | 'docx' | 'pdf' | 'srt' | 'vtt';
+
+export function toFileName(title: string, extension: string): string {
+  const base =
+    title
+      .replace(/[\\/:*?"<>|\n\r\t]+/g, '-')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 100) || 'ghi-chu';
+  return `${base}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// --- Markdown and plain text ---
+
+function inlineToMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent || '';
+  if (!(node instanceof HTMLElement)) return '';
+
+  const children = Array.from(node.childNodes).map(inlineToMarkdown).join('');
+  switch (node.tagName) {
+    case 'STRONG':
+    case 'B':
+      return children.trim() ? `**${children}**` : children;
+    case 'EM':
+    case 'I':
+      return children.trim() ? `*${children}*` : children;
+    case 'CODE':
+      return `\`${children}\``;
+    case 'A':
+      return `[${children}](${node.getAttribute('href') || ''})`;
+    case 'BR':
+      return '  \n';
+    case 'INPUT':
+      return (node as HTMLInputElement).checked ? '[x] ' : '[ ] ';
+    default:
+      return children;
+  }
+}
+
+function blockToMarkdown(node: Node, depth = 0): string[] {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = node.textContent?.trim();
+    return text ? [text] : [];
+  }
+  if (!(node instanceof HTMLElement)) return [];
+
+  const tag = node.tagName;
+  if (/^H[1-6]$/.test(tag)) {
+    return [`${'#'.repeat(Number(tag[1]))} ${inlineToMarkdown(node).trim()}`];
+  }
+  if (tag === 'UL' || tag === 'OL') {
+    const indent = '  '.repeat(depth);
+    const items = Array.from(node.children).filter((c) => c.tagName === 'LI');
+    const lines = items.flatMap((item, i) => {
+      const marker = tag === 'OL' ? `${i + 1}.` : '-';
+      const nested = Array.from(item.children).filter(
+        (c) => c.tagName === 'UL' || c.tagName === 'OL',
+      );
+      const text = Array.from(item.childNodes)
+        .filter((c) => !nested.includes(c as Element))
+        .map(inlineToMarkdown)
+        .join('')
+        .trim();
+      return [
+        `${indent}${marker} ${text}`,
+        ...nested.flatMap((list) => blockToMarkdown(list, depth + 1)),
+      ];
+    });
+    return depth === 0 ? [lines.join('\n')] : lines;
+  }
+  if (tag === 'PRE') return ['```\n' + (node.textContent || '') + '\n```'];
+  if (tag === 'BLOCKQUOTE') {
+    return [
+      Array.from(node.childNodes)
+        .flatMap((c) => blockToMarkdown(c))
+        .map((line) => `> ${line}`)
+        .join('\n'),
+    ];
+  }
+  if (tag === 'HR') return ['---'];
+  if (tag === 'DIV' || tag === 'SECTION') {
+    return Array.from(node.childNodes).flatMap((c) => blockToMarkdown(c));
+  }
+  const text = inlineToMarkdown(node).trim();
+  return text ? [text] : [];
+}
+
+/**
+ * Converts the polished note's HTML back to Markdown. Only needed after the
+ * user has edited the rendered note by hand; covers the elements marked
+ * produces (headings, paragraphs, lists, emphasis, code, quotes, links).
+ */
+export function htmlToMarkdown(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.body.childNodes)
+    .flatMap((node) => blockToMarkdown(node))
+    .join('\n\n');
+}
+
+export function getPolishedMarkdown(note: Note): string {
+  return note.polishedHtml
+    ? htmlToMarkdown(note.polishedHtml)
+    : note.polishedNote;
+}
+
+export function noteToMarkdown(note: Note, title: string): string {
+  const markdown = getPolishedMarkdown(note).trim();
+  const firstLine = markdown
+    .split('\n')[0]
+    ?.replace(/^#+\s*/, '')
+    .trim();
+  // The polished note usually opens with its own title heading.
+  if (!title || firstLine === title) return `${markdown}\n`;
+  return `# ${title}\n\n${markdown}\n`;
+}
+
+/** Strips Markdown syntax, keeping list markers and line structure. */
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^>\s?/gm, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function noteToPlainText(note: Note, title: string): string {
+  const sections = [title, markdownToPlainText(getPolishedMarkdown(note))];
+  if (note.rawTranscription.trim()) {
+    sections.push(`--- Bản ghi âm thô ---\n\n${note.rawTranscription.trim()}`);
+  }
+  return sections.filter(Boolean).join('\n\n') + '\n';
+}
+
+// --- Subtitles ---
+
+function segmentEnd(segments: TranscriptSegment[], index: number): number {
+  const segment = segments[index];
+  if (segment.end > segment.start) return segment.end;
+  const next = segments[index + 1];
+  return next && next.start > segment.start ? next.start : segment.start + 2;
+}
+
+function formatSubtitleTime(totalSeconds: number, separator: string): string {
+  const ms = Math.round(totalSeconds * 1000);
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = ms % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${separator}${String(millis).padStart(3, '0')}`;
+}
+
+export function segmentsToSrt(
+  segments: TranscriptSegment[],
+  speakerNames?: Record<string, string>,
+): string {
+  return segments
+    .map((segment, i) => {
+      const start = formatSubtitleTime(segment.start, ',');
+      const end = formatSubtitleTime(segmentEnd(segments, i), ',');
+      const speaker = segment.speaker
+        ? `${getSpeakerName(segment.speaker, speakerNames)}: `
+        : '';
+      return `${i + 1}\n${start} --> ${end}\n${speaker}${segment.text}\n`;
+    })
+    .join('\n');
+}
+
+export function segmentsToVtt(
+  segments: TranscriptSegment[],
+  speakerNames?: Record<string, string>,
+): string {
+  const cues = segments.map((segment, i) => {
+    const start = formatSubtitleTime(segment.start, '.');
+    const end = formatSubtitleTime(segmentEnd(segments, i), '.');
+    const text = segment.speaker
+      ? `<v ${getSpeakerName(segment.speaker, speakerNames)}>${segment.text}`
+      : segment.text;
+    return `${start} --> ${end}\n${text}\n`;
+  });
+  return `WEBVTT\n\n${cues.join('\n')}`;
+}
+
+// --- DOCX ---
+
+interface InlineToken {
+  type: string;
+  text?: string;
+  raw?: string;
+  tokens?: InlineToken[];
+}
+
+interface BlockToken extends InlineToken {
+  depth?: number;
+  ordered?: boolean;
+  start?: number | '';
+  items?: Array<{task?: boolean; checked?: boolean; tokens: BlockToken[]}>;
+  header?: Array<{text: string}>;
+  rows?: Array<Array<{text: string}>>;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeEntities(text: string): string {
+  const textarea = document.createElement('textarea');
+  textarea.innerHTML = text;
+  return textarea.value;
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  if (!text) return '';
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.code
+      ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>'
+      : '',
+  ].join('');
+  const rPr = props ? `<w:rPr>${props}</w:rPr>` : '';
+  return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function inlineRuns(
+  tokens: InlineToken[] | undefined,
+  style: RunStyle = {},
+): string {
+  if (!tokens) return '';
+  return tokens
+    .map((token) => {
+      switch (token.type) {
+        case 'strong':
+          return inlineRuns(token.tokens, {...style, bold: true});
+        case 'em':
+          return inlineRuns(token.tokens, {...style, italic: true});
+        case 'codespan':
+          return run(decodeEntities(token.text || ''), {...style, code: true});
+        case 'br':
+          return '<w:r><w:br/></w:r>';
+        case 'link':
+        case 'del':
+          return inlineRuns(token.tokens, style);
+        case 'text':
+          return token.tokens
+            ? inlineRuns(token.tokens, style)
+            : run(decodeEntities(token.text || ''), style);
+        default:
+          return run(decodeEntities(token.text || token.raw || ''), style);
+      }
+    })
+    .join('');
+}
+
+function paragraph(runs: string, properties = ''): string {
+  const pPr = properties ? `<w:pPr>${properties}</w:pPr>` : '';
+  return `<w:p>${pPr}${runs}</w:p>`;
+}
+
+function blocksToDocx(tokens: BlockToken[], listDepth = 0): string[] {
+  const paragraphs: string[] = [];
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading': {
+        const level = Math.min(token.depth || 1, 3);
+        paragraphs.push(
+          paragraph(
+            inlineRuns(token.tokens),
+            `<w:pStyle w:val="Heading${level}"/>`,
+          ),
+        );
+        break;
+      }
+      case 'paragraph':
+        paragraphs.push(paragraph(inlineRuns(token.tokens)));
+        break;
+      case 'text':
+        paragraphs.push(paragraph(inlineRuns(token.tokens ?? [token])));
+        break;
+      case 'list': {
+        const start = typeof token.start === 'number' ? token.start : 1;
+        (token.items || []).forEach((item, i) => {
+          const marker = item.task
+            ? item.checked
+              ? '☑ '
+              : '☐ '
+            : token.ordered
+              ? `${start + i}. `
+              : '• ';
+          const indent = `<w:ind w:left="${360 * (listDepth + 1)}" w:hanging="360"/>`;
+          const [first, ...rest] = item.tokens;
+          const firstRuns =
+            first && (first.type === 'text' || first.type === 'paragraph')
+              ? inlineRuns(first.tokens ?? [first])
+              : '';
+          paragraphs.push(paragraph(run(marker) + firstRuns, indent));
+          const remaining = firstRuns ? rest : item.tokens;
+          paragraphs.push(...blocksToDocx(remaining, listDepth + 1));
+        });
+        break;
+      }
+      case 'code':
+        for (const line of (token.text || '').split('\n')) {
+          paragraphs.push(
+            paragraph(run(line, {code: true}), '<w:spacing w:after="0"/>'),
+          );
+        }
+        break;
+      case 'blockquote':
+        paragraphs.push(
+          ...blocksToDocx(token.tokens as BlockToken[], listDepth).map((p) =>
+            p.replace('<w:p>', '<w:p><w:pPr><w:ind w:left="720"/></w:pPr>'),
+          ),
+        );
+        break;
+      case 'table': {
+        const rows = [token.header || [], ...(token.rows || [])];
+        for (const row of rows) {
+          paragraphs.push(
+            paragraph(
+              run(row.map((cell) => decodeEntities(cell.text)).join('\t')),
+            ),
+          );
+        }
+        break;
+      }
+      case 'hr':
+      case 'space':
+        break;
+      default:
+        if (token.raw?.trim())
+          paragraphs.push(paragraph(run(token.raw.trim())));
+    }
+  }
+  return paragraphs;
+}
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri" w:eastAsia="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="40"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="160"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+</w:styles>`;
+
+export function markdownToDocx(title: string, markdown: string): Blob {
+  const tokens = marked.lexer(markdown) as BlockToken[];
+  const firstHeading = tokens.find((t) => t.type !== 'space');
+  const hasTitleHeading =
+    firstHeading?.type === 'heading' && firstHeading.text?.trim() === title;
+  const body = [
+    ...(title && !hasTitleHeading
+      ? [paragraph(run(title), '<w:pStyle w:val="Title"/>')]
+      : []),
+    ...blocksToDocx(tokens),
+  ].join('');
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return createZip(
+    [
+      {
+        name: '[Content_Types].xml',
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`,
+      },
+      {
+        name: '_rels/.rels',
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`,
+      },
+      {
+        name: 'word/_rels/document.xml.rels',
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+      },
+      {name: 'word/document.xml', content: document},
+      {name: 'word/styles.xml', content: DOCX_STYLES},
+    ],
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  );
+}
+
+// --- ZIP (stored, no compression) ---
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createZip(
+  files: Array<{name: string; content: string}>,
+  mimeType: string,
+): Blob {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime =
+    (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate =
+    ((now.getFullYear() - 1980) << 9) |
+    ((now.getMonth() + 1) << 5) |
+    now.getDate();
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, dosTime, true);
+    central.setUint16(14, dosDate, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob(
+    [...localParts, ...centralParts, new Uint8Array(end.buffer)],
+    {
+      type: mimeType,
+    },
+  );
+}
+
+// --- PDF ---
+
+/**
+ * Opens the browser's print dialog for the note, from which it can be saved
+ * as PDF. Printing keeps Vietnamese text and the system fonts intact, which
+ * a hand-built PDF could not without embedding a font.
+ */
+export function printNoteAsPdf(title: string, html: string): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument;
+  const win = frame.contentWindow;
+  if (!doc || !win) {
+    frame.remove();
+    return;
+  }
+
+  const titleElement = doc.createElement('title');
+  titleElement.textContent = title;
+  const style = doc.createElement('style');
+  style.textContent = `
+    body { font-family: 'Inter', -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; color: #222; line-height: 1.6; margin: 2cm; }
+    h1, h2, h3 { line-height: 1.3; margin: 1.2em 0 0.5em; }
+    ul, ol { padding-left: 1.5em; }
+    pre, code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+    pre { white-space: pre-wrap; background: #f4f4f4; padding: 0.8em; border-radius: 4px; }
+  `;
+  doc.head.append(titleElement, style);
+  doc.body.innerHTML = html;
+
+  win.focus();
+  win.print();
+  // print() blocks in most browsers; the timeout covers those where it
+  // does not, so the frame is not removed while the dialog is open.
+  setTimeout(() => frame.remove(), 60000);
+  win.addEventListener('afterprint', () => frame.remove());
+}
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Type} from '@google/genai';
+import type {Schema} from '@google/genai';
+import {foldText} from './searchIndex';
+import type {ActionItem, KeyDate, Note} from './types';
+
+const STRING_LIST: Schema = {type: Type.ARRAY, items: {type: Type.STRING}};
+
+export const EXTRACTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: {type: Type.STRING, description: 'The task, as an action'},
+          owner: {type: Type.STRING, description: 'Who is responsible'},
+          dueDate: {type: Type.STRING, description: 'When it is due'},
+        },
+        required: ['text'],
+        propertyOrdering: ['text', 'owner', 'dueDate'],
+      },
+    },
+    decisions: STRING_LIST,
+    people: STRING_LIST,
+    keyDates: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: {type: Type.STRING},
+          description: {type: Type.STRING},
+        },
+        required: ['date', 'description'],
+        propertyOrdering: ['date', 'description'],
+      },
+    },
+    tags: STRING_LIST,
+  },
+  required: ['actionItems', 'decisions', 'people', 'keyDates', 'tags'],
+  propertyOrdering: ['actionItems', 'decisions', 'people', 'keyDates', 'tags'],
+};
+
+export type ExtractedFields = Required<
+  Pick<Note, 'actionItems' | 'decisions' | 'people' | 'keyDates' | 'tags'>
+>;
+
+export function buildExtractionPrompt(note: Note): string {
+  const sections = [];
+  if (note.polishedNote.trim()) {
+    sections.push(`Note:\n${note.polishedNote.trim()}`);
+  }
+  if (note.rawTranscription.trim()) {
+    sections.push(`Raw transcription:\n${note.rawTranscription.trim()}`);
+  }
+  return `Extract structured information from this recording's note and transcript.
+Reply with a JSON object with these fields:
+- "actionItems": every task, to-do or commitment, each with "text" (phrased as an action starting with a verb), and "owner" and "dueDate" when they were stated.
+- "decisions": every decision that was made, one sentence each.
+- "people": the names of the people who spoke or were mentioned.
+- "keyDates": dates, deadlines and scheduled events, each with "date" as stated and a short "description".
+- "tags": three to six short lowercase topic tags.
+Use the language of the note. Leave a list empty rather than inventing entries, and do not guess owners or dates that were not stated.
+
+${sections.join('\n\n')}`;
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const entry of value) {
+    const text = typeof entry === 'string' ? entry.trim() : '';
+    const key = foldText(text);
+    if (!text || seen.has(key)) continue;
+    seen.add(key);
+    result.push(text);
+  }
+  return result;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toRecordList(value: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * Reads the model's extraction reply. Action items that were already on the
+ * note keep their id and checked state when the same task comes back, so
+ * extracting again does not undo the user's progress.
+ */
+export function parseExtraction(
+  text: string,
+  previous: ActionItem[] = [],
+): ExtractedFields {
+  const cleaned = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/```$/, '')
+    .trim();
+  let data: unknown;
+  try {
+    data = JSON.parse(cleaned);
+  } catch {
+    throw new Error('Phản hồi trích xuất không phải JSON hợp lệ.');
+  }
+  if (!isRecord(data)) {
+    throw new Error('Phản hồi trích xuất không đúng định dạng.');
+  }
+
+  const previousByText = new Map(
+    previous.map((item) => [foldText(item.text), item]),
+  );
+  const actionItems: ActionItem[] = [];
+  for (const entry of toRecordList(data.actionItems)) {
+    const itemText = optionalString(entry.text);
+    if (!itemText) continue;
+    const existing = previousByText.get(foldText(itemText));
+    actionItems.push({
+      id: existing?.id || `todo_${Date.now()}_${actionItems.length}`,
+      text: itemText,
+      owner: optionalString(entry.owner),
+      dueDate: optionalString(entry.dueDate),
+      done: existing?.done || false,
+    });
+  }
+
+  const keyDates: KeyDate[] = [];
+  for (const entry of toRecordList(data.keyDates)) {
+    const date = optionalString(entry.date);
+    const description = optionalString(entry.description);
+    if (date && description) keyDates.push({date, description});
+  }
+
+  return {
+    actionItems,
+    decisions: toStringList(data.decisions),
+    people: toStringList(data.people),
+    keyDates,
+    tags: toStringList(data.tags).map((tag) => tag.toLowerCase()),
+  };
+}
+
+export type TodoStatusFilter = 'open' | 'done' | 'all';
+
+export interface TodoEntry {
+  note: Note;
+  item: ActionItem;
+}
+
+/**
+ * Action items across the library, newest note first. The query matches the
+ * task, its owner, the note title and the note's tags, ignoring accents.
+ */
+export function collectTodos(
+  notes: Note[],
+  status: TodoStatusFilter,
+  query: string,
+): TodoEntry[] {
+  const terms = foldText(query).split(/\s+/).filter(Boolean);
+  const entries: TodoEntry[] = [];
+  const sorted = [...notes].sort((a, b) => b.timestamp - a.timestamp);
+  for (const note of sorted) {
+    // A digest repeats the to-dos of its source notes.
+    if (note.kind === 'digest') continue;
+    for (const item of note.actionItems || []) {
+      if (status === 'open' && item.done) continue;
+      if (status === 'done' && !item.done) continue;
+      const haystack = foldText(
+        [item.text, item.owner, item.dueDate, note.title, ...(note.tags || [])]
+          .filter(Boolean)
+          .join(' '),
+      );
+      if (terms.every((term) => haystack.includes(term))) {
+        entries.push({note, item});
+      }
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {TranscriptResult, escapeRegExp, segmentsToText} from './transcript';
+
+// Kept as the text the user typed, one entry per line, so the editor shows
+// it back unchanged.
+export interface Glossary {
+  // Names and terms, e.g. "Nguyễn Thị Hằng" or "Kubernetes".
+  terms: string;
+  // Find-and-replace rules, e.g. "ghi ti tờ => GitHub".
+  rules: string;
+}
+
+export interface GlossaryStore {
+  global: Glossary;
+  // Keyed by note folder name.
+  folders: Record<string, Glossary>;
+}
+
+export interface ReplaceRule {
+  find: string;
+  replace: string;
+}
+
+// What applies to one note: the shared glossary plus its folder's.
+export interface ResolvedGlossary {
+  terms: string[];
+  rules: ReplaceRule[];
+}
+
+export const EMPTY_GLOSSARY: Glossary = {terms: '', rules: ''};
+
+const GLOSSARY_KEY = 'voiceNotes.glossary';
+
+export function loadGlossaries(): GlossaryStore {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GLOSSARY_KEY) || '{}');
+    return {
+      global: {...EMPTY_GLOSSARY, ...stored.global},
+      folders: stored.folders || {},
+    };
+  } catch {
+    return {global: {...EMPTY_GLOSSARY}, folders: {}};
+  }
+}
+
+export function saveGlossaries(store: GlossaryStore): void {
+  localStorage.setItem(GLOSSARY_KEY, JSON.stringify(store));
+}
+
+export function parseTerms(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/** Reads "find => replace" lines; "→" works as the arrow too. */
+export function parseReplaceRules(text: string): ReplaceRule[] {
+  const rules: ReplaceRule[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^(.+?)\s*(?:=>|→)\s*(.*)$/);
+    const find = match?.[1].trim();
+    if (find) rules.push({find, replace: match![2].trim()});
+  }
+  return rules;
+}
+
+/**
+ * Combines the shared glossary with the folder's. Folder rules run first, so
+ * a folder can override how a shared rule's phrase is replaced.
+ */
+export function resolveGlossary(
+  store: GlossaryStore,
+  folder?: string,
+): ResolvedGlossary {
+  const folderGlossary = (folder && store.folders[folder]) || EMPTY_GLOSSARY;
+  const terms = [
+    ...parseTerms(store.global.terms),
+    ...parseTerms(folderGlossary.terms),
+  ];
+  return {
+    terms: [...new Set(terms)],
+    rules: [
+      ...parseReplaceRules(folderGlossary.rules),
+      ...parseReplaceRules(store.global.rules),
+    ],
+  };
+}
+
+export function describeGlossaryForTranscription(terms: string[]): string {
+  if (terms.length === 0) return '';
+  return `The recording may mention these names and terms. When you hear them, spell them exactly as written here:
+${terms.map((term) => `- ${term}`).join('\n')}`;
+}
+
+export function describeGlossaryForPolish(terms: string[]): string {
+  if (terms.length === 0) return '';
+  return `Use these exact spellings for names and terms, correcting any misheard variants in the transcription:
+${terms.map((term) => `- ${term}`).join('\n')}`;
+}
+
+/**
+ * Applies the rules in order. Matching ignores case and runs of whitespace,
+ * and only replaces whole words, so "an" does not match inside "bản".
+ */
+export function applyReplaceRules(text: string, rules: ReplaceRule[]): string {
+  return rules.reduce((result, rule) => {
+    const phrase = rule.find.split(/\s+/).map(escapeRegExp).join('\\s+');
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${phrase}(?![\\p{L}\\p{N}])`,
+      'giu',
+    );
+    return result.replace(pattern, () => rule.replace);
+  }, text);
+}
+
+/**
+ * Applies the rules to a transcript. Timed transcripts are fixed segment by
+ * segment and their text rebuilt, so speaker labels are never rewritten.
+ */
+export function applyReplaceRulesToTranscript(
+  result: TranscriptResult,
+  rules: ReplaceRule[],
+  speakerNames?: Record<string, string>,
+): TranscriptResult {
+  if (rules.length === 0) return result;
+  if (result.segments.length === 0) {
+    return {text: applyReplaceRules(result.text, rules), segments: []};
+  }
+  const segments = result.segments.map((segment) => ({
+    ...segment,
+    text: applyReplaceRules(segment.text, rules),
+  }));
+  return {text: segmentsToText(segments, speakerNames), segments};
+}
@@ -4,21 +4,230 @@
 */
 /* tslint:disable */
 
-import {GoogleGenAI} from '@google/genai';
 import {marked} from 'marked';
+import {
+  AudioChunk,
+  CHUNKING_THRESHOLD_BYTES,
+  chunkSamples,
+  splitAudioIntoChunks,
+} from './audioChunking';
+import {
+  RecordingAnalysis,
+  RecordingLevels,
+  TrimPlan,
+  addRange,
+  analyzeRecording,
+  encodeKeptRegions,
+  excludeRanges,
+  getKeptRegions,
+  getTotalDuration,
+  joinRegions,
+  keepsWholeRecording,
+  planTrim,
+  restoreOriginalTimes,
+} from './audioTrimming';
+import {buildChatSystemInstruction, linkCitations} from './chat';
+import {
+  Command,
+  CommandPalette,
+  formatShortcut,
+  isEditableTarget,
+  matchesShortcut,
+} from './commands';
+import {
+  DIGEST_STYLES,
+  appendDigestSources,
+  buildDigestPrompt,
+  buildDigestSource,
+  buildDigestTitle,
+  collectTags,
+  filterDigestCandidates,
+  noteIdFromLink,
+  toDateInputValue,
+} from './digest';
+import {
+  ExportFormat,
+  downloadBlob,
+  markdownToDocx,
+  noteToMarkdown,
+  noteToPlainText,
+  printNoteAsPdf,
+  segmentsToSrt,
+  segmentsToVtt,
+  toFileName,
+} from './exporters';
+import {
+  EXTRACTION_SCHEMA,
+  TodoStatusFilter,
+  buildExtractionPrompt,
+  collectTodos,
+  parseExtraction,
+} from './extraction';
+import {
+  EMPTY_GLOSSARY,
+  GlossaryStore,
+  ResolvedGlossary,
+  applyReplaceRulesToTranscript,
+  describeGlossaryForPolish,
+  describeGlossaryForTranscription,
+  loadGlossaries,
+  resolveGlossary,
+  saveGlossaries,
+} from './glossary';
+import {
+  INPUT_WARNING_MESSAGES,
+  InputLevelWatcher,
+  levelToMeterFraction,
+  measureInputLevel,
+} from './inputLevel';
+import {
+  AUTO_DETECT_LANGUAGE,
+  LANGUAGES,
+  SAME_AS_TRANSCRIPT_LANGUAGE,
+  buildTranslationPrompt,
+  describeOutputLanguage,
+  findLanguage,
+} from './languages';
+import {LIVE_TIMESLICE_MS, LiveTranscriber} from './liveTranscription';
+import {
+  getFileExtension,
+  resolveImportMimeType,
+  validateImportFile,
+} from './media';
+import {
+  deleteCustomTemplate,
+  deleteNote,
+  getAllNotes,
+  getCustomTemplates,
+  getNoteAudio,
+  saveCustomTemplate,
+  saveNote,
+  saveNoteAudio,
+} from './noteStore';
+import {
+  QUEUE_MAX_AUTO_RETRIES,
+  describePendingNote,
+  getNextRetryDelay,
+  isPendingNote,
+  isRetryDue,
+} from './processingQueue';
+import {
+  AIProvider,
+  DEFAULT_MODELS,
+  PROVIDER_LABELS,
+  ProviderId,
+  ProviderSettings,
+  createProvider,
+  loadProviderSettings,
+  promptMessages,
+  readAllText,
+  saveProviderSettings,
+} from './providers';
+import {SearchIndex, SearchResult, findTextRange} from './searchIndex';
+import {
+  AppSettings,
+  buildAudioConstraints,
+  getInputDevices,
+  loadAppSettings,
+  saveAppSettings,
+} from './settings';
+import {StreamCancelledError, StreamController} from './streaming';
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_ID,
+  PolishTemplate,
+  buildPolishPrompt,
+  deriveNoteTitle,
+} from './templates';
+import {
+  TranscriptResult,
+  buildLiveTranscriptPrompt,
+  buildTranscriptPrompt,
+  escapeRegExp,
+  formatTimestamp,
+  getSpeakerName,
+  mergeTranscripts,
+  offsetTranscript,
+  parseTranscriptSegments,
+  removeTranscriptRange,
+  replaceTranscriptRange,
+  segmentsToText,
+} from './transcript';
+import {TrimEditor} from './trimEditor';
+import type {
+  ActionItem,
+  ChatMessage,
+  Note,
+  NoteProcessingState,
+  PolishVersion,
+  TranscriptSegment,
+} from './types';
+import {WaveformEditor} from './waveform';
 
-const MODEL_NAME = 'gemini-2.5-flash';
+const AUTOSAVE_DELAY_MS = 600;
+const SELECTED_TEMPLATE_KEY = 'voiceNotes.polishTemplateId';
+const TRANSCRIPTION_LANGUAGE_KEY = 'voiceNotes.transcriptionLanguage';
+const OUTPUT_LANGUAGE_KEY = 'voiceNotes.outputLanguage';
+const LIVE_TRANSCRIPTION_KEY = 'voiceNotes.liveTranscription';
+const MAX_POLISH_HISTORY = 20;
+const TRANSCRIPTION_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+// How long decoded samples are kept after a waveform edit, for the next one.
+const EDIT_SAMPLES_TTL_MS = 60 * 1000;
 
-interface Note {
-  id: string;
-  rawTranscription: string;
-  polishedNote: string;
-  timestamp: number;
+// Progress of a (possibly chunked) transcription. Kept around after a
+// failure so a retry resumes at the failed chunk instead of starting over.
+interface TranscriptionJob {
+  noteId: string;
+  chunks: AudioChunk[];
+  results: TranscriptResult[];
+}
+
+interface PolishRequest {
+  templateId: string;
+  instructions: string;
+  prompt: string;
+}
+
+async function withRetry<T>(
+  task: () => Promise<T>,
+  attempts: number,
+  baseDelayMs: number,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= attempts || error instanceof StreamCancelledError) {
+        throw error;
+      }
+      console.warn(`Attempt ${attempt} failed, retrying:`, error);
+      const delay = baseDelayMs * 2 ** (attempt - 1);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Replaces text in the visible text of an HTML fragment only, leaving tag
+ * names, attributes and classes untouched.
+ */
+function replaceInHtmlText(
+  html: string,
+  pattern: RegExp,
+  replacement: string,
+): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    node.textContent = (node.textContent || '').replace(pattern, replacement);
+  }
+  return doc.body.innerHTML;
 }
 
 class VoiceNotesApp {
-  // FIX: Updated genAI property to use the GoogleGenAI type for better type safety.
-  private genAI: GoogleGenAI;
+  private provider: AIProvider;
+  private providerSettings: ProviderSettings;
   private mediaRecorder: MediaRecorder | null = null;
   private recordButton: HTMLButtonElement;
   private recordingStatus: HTMLDivElement;
@@ -43,18 +252,232 @@ class VoiceNotesApp {
   private analyserNode: AnalyserNode | null = null;
   private waveformDataArray: Uint8Array | null = null;
   private waveformDrawingId: number | null = null;
+  private micSelect: HTMLSelectElement;
+  private micMonitorButton: HTMLButtonElement;
+  private levelMeterFill: HTMLDivElement;
+  private inputWarning: HTMLDivElement;
+  // True while the mic check runs its own stream before recording.
+  private isMonitoringInput = false;
+  private levelMeterId: number | null = null;
+  private levelBuffer: Uint8Array | null = null;
+  private inputLevelWatcher = new InputLevelWatcher();
+  private knownInputDeviceIds: string[] = [];
+  private commands: Command[];
+  private insightsButton: HTMLButtonElement;
+  private insightsPanel: HTMLElement;
+  private closeInsightsButton: HTMLButtonElement;
+  private extractButton: HTMLButtonElement;
+  private insightsScopeButtons: HTMLButtonElement[];
+  private insightsNoteView: HTMLDivElement;
+  private insightsTodoView: HTMLDivElement;
+  private todoSearchInput: HTMLInputElement;
+  private todoStatusSelect: HTMLSelectElement;
+  private todoList: HTMLUListElement;
+  private insightsScope: 'note' | 'all' = 'note';
+  private extractingNoteIds = new Set<string>();
+  private digestButton: HTMLButtonElement;
+  private digestModal: HTMLDivElement;
+  private digestForm: HTMLFormElement;
+  private digestStyleSelect: HTMLSelectElement;
+  private digestFromInput: HTMLInputElement;
+  private digestToInput: HTMLInputElement;
+  private digestTagSelect: HTMLSelectElement;
+  private digestSelectAllButton: HTMLButtonElement;
+  private digestCount: HTMLSpanElement;
+  private digestNoteList: HTMLUListElement;
+  private cancelDigestButton: HTMLButtonElement;
+  private createDigestButton: HTMLButtonElement;
+  // Notes matching the digest filters, and the ones still ticked.
+  private digestCandidates: Note[] = [];
+  private digestSelectedIds = new Set<string>();
+  private noteFolderInput: HTMLInputElement;
+  private folderOptions: HTMLDataListElement;
+  private glossaryButton: HTMLButtonElement;
+  private glossaryModal: HTMLDivElement;
+  private glossaryForm: HTMLFormElement;
+  private glossaryScopeSelect: HTMLSelectElement;
+  private glossaryTermsInput: HTMLTextAreaElement;
+  private glossaryRulesInput: HTMLTextAreaElement;
+  private applyGlossaryRulesButton: HTMLButtonElement;
+  private cancelGlossaryButton: HTMLButtonElement;
+  private glossaries: GlossaryStore = loadGlossaries();
+  // Edits in the glossary dialog, across scopes, until they are saved.
+  // The scope is a folder name, or empty for the shared glossary.
+  private glossaryDraft: GlossaryStore = loadGlossaries();
+  private glossaryScope = '';
+  private trimModal: HTMLDivElement;
+  private trimSummary: HTMLParagraphElement;
+  private sendTrimmedButton: HTMLButtonElement;
+  private sendUntrimmedButton: HTMLButtonElement;
+  private trimEditor: TrimEditor;
+  private waveformPanel: HTMLDivElement;
+  private waveformToggleButton: HTMLButtonElement;
+  private zoomInButton: HTMLButtonElement;
+  private zoomOutButton: HTMLButtonElement;
+  private waveformSelectionLabel: HTMLSpanElement;
+  private retranscribeRegionButton: HTMLButtonElement;
+  private cutRegionButton: HTMLButtonElement;
+  private clearSelectionButton: HTMLButtonElement;
+  private waveformEditor: WaveformEditor;
+  // The player's recording, the recording the waveform was decoded from,
+  // and its levels once they are ready. Samples are decoded again when a
+  // region is edited rather than kept for as long as the note is open.
+  private playerAudio: Blob | null = null;
+  private waveformSource: Blob | null = null;
+  private waveformLevels: RecordingLevels | null = null;
+  // A new recording being decoded for transcription. The waveform takes its
+  // levels from that decode instead of decoding the audio a second time.
+  private preparingAudio: Blob | null = null;
+  // Samples of the player's recording, decoded for region edits and kept
+  // briefly so a series of edits decodes it only once.
+  private editSamples: {audio: Blob; analysis: RecordingAnalysis} | null = null;
+  private editSamplesTimeoutId: number | null = null;
+  private isWaveformVisible = true;
+  private isEditingAudio = false;
+  // The trim being reviewed, and how to hand the user's choice back.
+  private trimReview: {
+    analysis: RecordingAnalysis;
+    plan: TrimPlan;
+    resolve: (plan: TrimPlan | null) => void;
+  } | null = null;
+  private commandPalette: CommandPalette;
+  private shortcutList: HTMLUListElement;
   private timerIntervalId: number | null = null;
   private recordingStartTime: number = 0;
+  private isPaused = false;
+  private pauseStartTime = 0;
+  private pausedDurationMs = 0;
+  private pauseButton: HTMLButtonElement;
+  private liveTranscriptionButton: HTMLButtonElement;
+  private liveTranscriptionEnabled =
+    localStorage.getItem(LIVE_TRANSCRIPTION_KEY) === 'true';
+  private liveTranscriber: LiveTranscriber | null = null;
 
   private instructionsButton: HTMLButtonElement;
   private instructionsModal: HTMLDivElement;
   private closeInstructionsButton: HTMLButtonElement;
 
+  private sidebar: HTMLElement;
+  private sidebarToggleButton: HTMLButtonElement;
+  private noteList: HTMLUListElement;
+  private notes: Note[] = [];
+  private noteSearchInput: HTMLInputElement;
+  private searchIndex = new SearchIndex();
+  private searchQuery = '';
+  private autosaveTimeoutId: number | null = null;
+
+  private audioPlayer: HTMLDivElement;
+  private noteAudio: HTMLAudioElement;
+  private playPauseButton: HTMLButtonElement;
+  private audioSeekBar: HTMLInputElement;
+  private audioCurrentTime: HTMLSpanElement;
+  private audioDuration: HTMLSpanElement;
+  private playbackRateSelect: HTMLSelectElement;
+  private audioDownloadLink: HTMLAnchorElement;
+  private audioObjectUrl: string | null = null;
+
+  private noteArea: HTMLDivElement;
+  private retryTranscriptionButton: HTMLButtonElement;
+  private transcriptionJob: TranscriptionJob | null = null;
+  private cancelStreamButton: HTMLButtonElement;
+  // The transcription or polish response currently streaming in, if any.
+  // Only one runs at a time, and it always belongs to the current note.
+  private activeStream: StreamController | null = null;
+  private pendingQueue: HTMLDivElement;
+  private pendingQueueCount: HTMLSpanElement;
+  private pendingQueueList: HTMLUListElement;
+  private queueTimeoutId: number | null = null;
+  private isQueueRunning = false;
+  // Queued notes being processed away from the editor.
+  private backgroundNoteIds = new Set<string>();
+
+  private templateSelect: HTMLSelectElement;
+  private manageTemplatesButton: HTMLButtonElement;
+  private templatesModal: HTMLDivElement;
+  private templateList: HTMLUListElement;
+  private templateForm: HTMLFormElement;
+  private templateNameInput: HTMLInputElement;
+  private templatePromptInput: HTMLTextAreaElement;
+  private cancelTemplateEditButton: HTMLButtonElement;
+  private closeTemplatesButton: HTMLButtonElement;
+  private customTemplates: PolishTemplate[] = [];
+  private editingTemplateId: string | null = null;
+  private repolishButton: HTMLButtonElement;
+  private repolishModal: HTMLDivElement;
+  private repolishForm: HTMLFormElement;
+  private repolishTemplateSelect: HTMLSelectElement;
+  private repolishInstructionsInput: HTMLTextAreaElement;
+  private cancelRepolishButton: HTMLButtonElement;
+  private historyButton: HTMLButtonElement;
+  private historyModal: HTMLDivElement;
+  private historyList: HTMLUListElement;
+  private historyPreviewCurrent: HTMLDivElement;
+  private historyPreviewSelected: HTMLDivElement;
+  private restoreVersionButton: HTMLButtonElement;
+  private closeHistoryButton: HTMLButtonElement;
+  private selectedHistoryIndex: number | null = null;
+
+  private languageButton: HTMLButtonElement;
+  private languageModal: HTMLDivElement;
+  private transcriptionLanguageSelect: HTMLSelectElement;
+  private outputLanguageSelect: HTMLSelectElement;
+  private translateLanguageSelect: HTMLSelectElement;
+  private translateButton: HTMLButtonElement;
+  private closeLanguageButton: HTMLButtonElement;
+  private variantSelect: HTMLSelectElement;
+
+  private settingsButton: HTMLButtonElement;
+  private settingsModal: HTMLDivElement;
+  private settingsForm: HTMLFormElement;
+  private providerSelect: HTMLSelectElement;
+  private modelInput: HTMLInputElement;
+  private openaiSettings: HTMLDivElement;
+  private openaiBaseUrlInput: HTMLInputElement;
+  private openaiApiKeyInput: HTMLInputElement;
+  private openaiTranscriptionModelInput: HTMLInputElement;
+  private mockProviderHint: HTMLParagraphElement;
+  private geminiSettings: HTMLDivElement;
+  private geminiApiKeyInput: HTMLInputElement;
+  private inputDeviceSelect: HTMLSelectElement;
+  private echoCancellationInput: HTMLInputElement;
+  private noiseSuppressionInput: HTMLInputElement;
+  private autoGainControlInput: HTMLInputElement;
+  private trimSilenceInput: HTMLInputElement;
+  private reviewTrimInput: HTMLInputElement;
+  private defaultPolishPromptInput: HTMLTextAreaElement;
+  private settings: AppSettings;
+  private cancelSettingsButton: HTMLButtonElement;
+  private transcriptionLanguage =
+    localStorage.getItem(TRANSCRIPTION_LANGUAGE_KEY) || AUTO_DETECT_LANGUAGE;
+  private outputLanguage =
+    localStorage.getItem(OUTPUT_LANGUAGE_KEY) || SAME_AS_TRANSCRIPT_LANGUAGE;
+  // Language code of the translation shown in the polished tab, or null
+  // for the original.
+  private activeVariant: string | null = null;
+
+  private exportButton: HTMLButtonElement;
+  private exportMenu: HTMLDivElement;
+  private selectedTemplateId =
+    localStorage.getItem(SELECTED_TEMPLATE_KEY) || DEFAULT_TEMPLATE_ID;
+  private importButton: HTMLButtonElement;
+  private importFileInput: HTMLInputElement;
+
+  private chatButton: HTMLButtonElement;
+  private chatPanel: HTMLElement;
+  private chatMessages: HTMLDivElement;
+  private chatForm: HTMLFormElement;
+  private chatInput: HTMLTextAreaElement;
+  private sendChatButton: HTMLButtonElement;
+  private clearChatButton: HTMLButtonElement;
+  private closeChatButton: HTMLButtonElement;
+  // Question waiting for an answer. It is only added to the note's history
+  // once answered, so a failed request leaves no dangling turn behind.
+  private pendingChat: {noteId: string; question: string} | null = null;
+
   constructor() {
-    // FIX: Updated GoogleGenAI initialization to use the correct API key environment variable and remove the deprecated apiVersion parameter, ensuring compatibility with the current Gemini API.
-    this.genAI = new GoogleGenAI({
-      apiKey: process.env.API_KEY,
-    });
+    this.settings = loadAppSettings();
+    this.providerSettings = loadProviderSettings();
+    this.provider = createProvider(this.providerSettings, process.env.API_KEY);
 
     this.recordButton = document.getElementById(
       'recordButton',
@@ -82,10 +505,27 @@ class VoiceNotesApp {
     this.liveWaveformCanvas = document.getElementById(
       'liveWaveformCanvas',
     ) as HTMLCanvasElement;
+    this.micSelect = document.getElementById('micSelect') as HTMLSelectElement;
+    this.micMonitorButton = document.getElementById(
+      'micMonitorButton',
+    ) as HTMLButtonElement;
+    this.levelMeterFill = document.getElementById(
+      'levelMeterFill',
+    ) as HTMLDivElement;
+    this.inputWarning = document.getElementById(
+      'inputWarning',
+    ) as HTMLDivElement;
     this.liveRecordingTimerDisplay = document.getElementById(
       'liveRecordingTimerDisplay',
     ) as HTMLDivElement;
 
+    this.pauseButton = document.getElementById(
+      'pauseButton',
+    ) as HTMLButtonElement;
+    this.liveTranscriptionButton = document.getElementById(
+      'liveTranscriptionButton',
+    ) as HTMLButtonElement;
+
     this.instructionsButton = document.getElementById(
       'instructionsButton',
     ) as HTMLButtonElement;
@@ -96,6 +536,236 @@ class VoiceNotesApp {
       'closeInstructionsButton',
     ) as HTMLButtonElement;
 
+    this.sidebar = document.querySelector('.sidebar') as HTMLElement;
+    this.sidebarToggleButton = document.getElementById(
+      'sidebarToggleButton',
+    ) as HTMLButtonElement;
+    this.noteList = document.getElementById('noteList') as HTMLUListElement;
+    this.noteSearchInput = document.getElementById(
+      'noteSearchInput',
+    ) as HTMLInputElement;
+
+    this.noteArea = document.querySelector('.note-area') as HTMLDivElement;
+    this.chatButton = document.getElementById(
+      'chatButton',
+    ) as HTMLButtonElement;
+    this.chatPanel = document.getElementById('chatPanel') as HTMLElement;
+    this.chatMessages = document.getElementById(
+      'chatMessages',
+    ) as HTMLDivElement;
+    this.chatForm = document.getElementById('chatForm') as HTMLFormElement;
+    this.chatInput = document.getElementById(
+      'chatInput',
+    ) as HTMLTextAreaElement;
+    this.sendChatButton = document.getElementById(
+      'sendChatButton',
+    ) as HTMLButtonElement;
+    this.clearChatButton = document.getElementById(
+      'clearChatButton',
+    ) as HTMLButtonElement;
+    this.closeChatButton = document.getElementById(
+      'closeChatButton',
+    ) as HTMLButtonElement;
+    this.retryTranscriptionButton = document.getElementById(
+      'retryTranscriptionButton',
+    ) as HTMLButtonElement;
+    this.cancelStreamButton = document.getElementById(
+      'cancelStreamButton',
+    ) as HTMLButtonElement;
+    this.pendingQueue = document.getElementById(
+      'pendingQueue',
+    ) as HTMLDivElement;
+    this.pendingQueueCount = document.getElementById(
+      'pendingQueueCount',
+    ) as HTMLSpanElement;
+    this.pendingQueueList = document.getElementById(
+      'pendingQueueList',
+    ) as HTMLUListElement;
+    this.importButton = document.getElementById(
+      'importButton',
+    ) as HTMLButtonElement;
+    this.importFileInput = document.getElementById(
+      'importFileInput',
+    ) as HTMLInputElement;
+
+    this.templateSelect = document.getElementById(
+      'templateSelect',
+    ) as HTMLSelectElement;
+    this.manageTemplatesButton = document.getElementById(
+      'manageTemplatesButton',
+    ) as HTMLButtonElement;
+    this.templatesModal = document.getElementById(
+      'templatesModal',
+    ) as HTMLDivElement;
+    this.templateList = document.getElementById(
+      'templateList',
+    ) as HTMLUListElement;
+    this.templateForm = document.getElementById(
+      'templateForm',
+    ) as HTMLFormElement;
+    this.templateNameInput = document.getElementById(
+      'templateNameInput',
+    ) as HTMLInputElement;
+    this.templatePromptInput = document.getElementById(
+      'templatePromptInput',
+    ) as HTMLTextAreaElement;
+    this.cancelTemplateEditButton = document.getElementById(
+      'cancelTemplateEditButton',
+    ) as HTMLButtonElement;
+    this.closeTemplatesButton = document.getElementById(
+      'closeTemplatesButton',
+    ) as HTMLButtonElement;
+
+    this.repolishButton = document.getElementById(
+      'repolishButton',
+    ) as HTMLButtonElement;
+    this.repolishModal = document.getElementById(
+      'repolishModal',
+    ) as HTMLDivElement;
+    this.repolishForm = document.getElementById(
+      'repolishForm',
+    ) as HTMLFormElement;
+    this.repolishTemplateSelect = document.getElementById(
+      'repolishTemplateSelect',
+    ) as HTMLSelectElement;
+    this.repolishInstructionsInput = document.getElementById(
+      'repolishInstructionsInput',
+    ) as HTMLTextAreaElement;
+    this.cancelRepolishButton = document.getElementById(
+      'cancelRepolishButton',
+    ) as HTMLButtonElement;
+    this.historyButton = document.getElementById(
+      'historyButton',
+    ) as HTMLButtonElement;
+    this.historyModal = document.getElementById(
+      'historyModal',
+    ) as HTMLDivElement;
+    this.historyList = document.getElementById(
+      'historyList',
+    ) as HTMLUListElement;
+    this.historyPreviewCurrent = document.getElementById(
+      'historyPreviewCurrent',
+    ) as HTMLDivElement;
+    this.historyPreviewSelected = document.getElementById(
+      'historyPreviewSelected',
+    ) as HTMLDivElement;
+    this.restoreVersionButton = document.getElementById(
+      'restoreVersionButton',
+    ) as HTMLButtonElement;
+    this.closeHistoryButton = document.getElementById(
+      'closeHistoryButton',
+    ) as HTMLButtonElement;
+
+    this.languageButton = document.getElementById(
+      'languageButton',
+    ) as HTMLButtonElement;
+    this.languageModal = document.getElementById(
+      'languageModal',
+    ) as HTMLDivElement;
+    this.transcriptionLanguageSelect = document.getElementById(
+      'transcriptionLanguageSelect',
+    ) as HTMLSelectElement;
+    this.outputLanguageSelect = document.getElementById(
+      'outputLanguageSelect',
+    ) as HTMLSelectElement;
+    this.translateLanguageSelect = document.getElementById(
+      'translateLanguageSelect',
+    ) as HTMLSelectElement;
+    this.translateButton = document.getElementById(
+      'translateButton',
+    ) as HTMLButtonElement;
+    this.closeLanguageButton = document.getElementById(
+      'closeLanguageButton',
+    ) as HTMLButtonElement;
+    this.variantSelect = document.getElementById(
+      'variantSelect',
+    ) as HTMLSelectElement;
+
+    this.settingsButton = document.getElementById(
+      'settingsButton',
+    ) as HTMLButtonElement;
+    this.settingsModal = document.getElementById(
+      'settingsModal',
+    ) as HTMLDivElement;
+    this.settingsForm = document.getElementById(
+      'settingsForm',
+    ) as HTMLFormElement;
+    this.providerSelect = document.getElementById(
+      'providerSelect',
+    ) as HTMLSelectElement;
+    this.modelInput = document.getElementById('modelInput') as HTMLInputElement;
+    this.openaiSettings = document.getElementById(
+      'openaiSettings',
+    ) as HTMLDivElement;
+    this.openaiBaseUrlInput = document.getElementById(
+      'openaiBaseUrlInput',
+    ) as HTMLInputElement;
+    this.openaiApiKeyInput = document.getElementById(
+      'openaiApiKeyInput',
+    ) as HTMLInputElement;
+    this.openaiTranscriptionModelInput = document.getElementById(
+      'openaiTranscriptionModelInput',
+    ) as HTMLInputElement;
+    this.mockProviderHint = document.getElementById(
+      'mockProviderHint',
+    ) as HTMLParagraphElement;
+    this.geminiSettings = document.getElementById(
+      'geminiSettings',
+    ) as HTMLDivElement;
+    this.geminiApiKeyInput = document.getElementById(
+      'geminiApiKeyInput',
+    ) as HTMLInputElement;
+    this.inputDeviceSelect = document.getElementById(
+      'inputDeviceSelect',
+    ) as HTMLSelectElement;
+    this.echoCancellationInput = document.getElementById(
+      'echoCancellationInput',
+    ) as HTMLInputElement;
+    this.noiseSuppressionInput = document.getElementById(
+      'noiseSuppressionInput',
+    ) as HTMLInputElement;
+    this.autoGainControlInput = document.getElementById(
+      'autoGainControlInput',
+    ) as HTMLInputElement;
+    this.trimSilenceInput = document.getElementById(
+      'trimSilenceInput',
+    ) as HTMLInputElement;
+    this.reviewTrimInput = document.getElementById(
+      'reviewTrimInput',
+    ) as HTMLInputElement;
+    this.defaultPolishPromptInput = document.getElementById(
+      'defaultPolishPromptInput',
+    ) as HTMLTextAreaElement;
+    this.cancelSettingsButton = document.getElementById(
+      'cancelSettingsButton',
+    ) as HTMLButtonElement;
+
+    this.exportButton = document.getElementById(
+      'exportButton',
+    ) as HTMLButtonElement;
+    this.exportMenu = document.getElementById('exportMenu') as HTMLDivElement;
+
+    this.audioPlayer = document.getElementById('audioPlayer') as HTMLDivElement;
+    this.noteAudio = document.getElementById('noteAudio') as HTMLAudioElement;
+    this.playPauseButton = document.getElementById(
+      'playPauseButton',
+    ) as HTMLButtonElement;
+    this.audioSeekBar = document.getElementById(
+      'audioSeekBar',
+    ) as HTMLInputElement;
+    this.audioCurrentTime = document.getElementById(
+      'audioCurrentTime',
+    ) as HTMLSpanElement;
+    this.audioDuration = document.getElementById(
+      'audioDuration',
+    ) as HTMLSpanElement;
+    this.playbackRateSelect = document.getElementById(
+      'playbackRateSelect',
+    ) as HTMLSelectElement;
+    this.audioDownloadLink = document.getElementById(
+      'audioDownloadLink',
+    ) as HTMLAnchorElement;
+
     if (this.liveWaveformCanvas) {
       this.liveWaveformCtx = this.liveWaveformCanvas.getContext('2d');
     } else {
@@ -113,14 +783,169 @@ class VoiceNotesApp {
       this.statusIndicatorDiv = null;
     }
 
+    this.shortcutList = document.getElementById(
+      'shortcutList',
+    ) as HTMLUListElement;
+    this.insightsButton = document.getElementById(
+      'insightsButton',
+    ) as HTMLButtonElement;
+    this.insightsPanel = document.getElementById(
+      'insightsPanel',
+    ) as HTMLElement;
+    this.closeInsightsButton = document.getElementById(
+      'closeInsightsButton',
+    ) as HTMLButtonElement;
+    this.extractButton = document.getElementById(
+      'extractButton',
+    ) as HTMLButtonElement;
+    this.insightsScopeButtons = Array.from(
+      document.querySelectorAll<HTMLButtonElement>('[data-insights-scope]'),
+    );
+    this.insightsNoteView = document.getElementById(
+      'insightsNoteView',
+    ) as HTMLDivElement;
+    this.insightsTodoView = document.getElementById(
+      'insightsTodoView',
+    ) as HTMLDivElement;
+    this.todoSearchInput = document.getElementById(
+      'todoSearchInput',
+    ) as HTMLInputElement;
+    this.todoStatusSelect = document.getElementById(
+      'todoStatusSelect',
+    ) as HTMLSelectElement;
+    this.todoList = document.getElementById('todoList') as HTMLUListElement;
+    this.digestButton = document.getElementById(
+      'digestButton',
+    ) as HTMLButtonElement;
+    this.digestModal = document.getElementById('digestModal') as HTMLDivElement;
+    this.digestForm = document.getElementById('digestForm') as HTMLFormElement;
+    this.digestStyleSelect = document.getElementById(
+      'digestStyleSelect',
+    ) as HTMLSelectElement;
+    this.digestFromInput = document.getElementById(
+      'digestFromInput',
+    ) as HTMLInputElement;
+    this.digestToInput = document.getElementById(
+      'digestToInput',
+    ) as HTMLInputElement;
+    this.digestTagSelect = document.getElementById(
+      'digestTagSelect',
+    ) as HTMLSelectElement;
+    this.digestSelectAllButton = document.getElementById(
+      'digestSelectAllButton',
+    ) as HTMLButtonElement;
+    this.digestCount = document.getElementById(
+      'digestCount',
+    ) as HTMLSpanElement;
+    this.digestNoteList = document.getElementById(
+      'digestNoteList',
+    ) as HTMLUListElement;
+    this.cancelDigestButton = document.getElementById(
+      'cancelDigestButton',
+    ) as HTMLButtonElement;
+    this.createDigestButton = document.getElementById(
+      'createDigestButton',
+    ) as HTMLButtonElement;
+    this.noteFolderInput = document.getElementById(
+      'noteFolderInput',
+    ) as HTMLInputElement;
+    this.folderOptions = document.getElementById(
+      'folderOptions',
+    ) as HTMLDataListElement;
+    this.glossaryButton = document.getElementById(
+      'glossaryButton',
+    ) as HTMLButtonElement;
+    this.glossaryModal = document.getElementById(
+      'glossaryModal',
+    ) as HTMLDivElement;
+    this.glossaryForm = document.getElementById(
+      'glossaryForm',
+    ) as HTMLFormElement;
+    this.glossaryScopeSelect = document.getElementById(
+      'glossaryScopeSelect',
+    ) as HTMLSelectElement;
+    this.glossaryTermsInput = document.getElementById(
+      'glossaryTermsInput',
+    ) as HTMLTextAreaElement;
+    this.glossaryRulesInput = document.getElementById(
+      'glossaryRulesInput',
+    ) as HTMLTextAreaElement;
+    this.applyGlossaryRulesButton = document.getElementById(
+      'applyGlossaryRulesButton',
+    ) as HTMLButtonElement;
+    this.cancelGlossaryButton = document.getElementById(
+      'cancelGlossaryButton',
+    ) as HTMLButtonElement;
+    this.trimModal = document.getElementById('trimModal') as HTMLDivElement;
+    this.trimSummary = document.getElementById(
+      'trimSummary',
+    ) as HTMLParagraphElement;
+    this.sendTrimmedButton = document.getElementById(
+      'sendTrimmedButton',
+    ) as HTMLButtonElement;
+    this.sendUntrimmedButton = document.getElementById(
+      'sendUntrimmedButton',
+    ) as HTMLButtonElement;
+    this.waveformPanel = document.getElementById(
+      'waveformPanel',
+    ) as HTMLDivElement;
+    this.waveformToggleButton = document.getElementById(
+      'waveformToggleButton',
+    ) as HTMLButtonElement;
+    this.zoomInButton = document.getElementById(
+      'zoomInButton',
+    ) as HTMLButtonElement;
+    this.zoomOutButton = document.getElementById(
+      'zoomOutButton',
+    ) as HTMLButtonElement;
+    this.waveformSelectionLabel = document.getElementById(
+      'waveformSelectionLabel',
+    ) as HTMLSpanElement;
+    this.retranscribeRegionButton = document.getElementById(
+      'retranscribeRegionButton',
+    ) as HTMLButtonElement;
+    this.cutRegionButton = document.getElementById(
+      'cutRegionButton',
+    ) as HTMLButtonElement;
+    this.clearSelectionButton = document.getElementById(
+      'clearSelectionButton',
+    ) as HTMLButtonElement;
+    this.waveformEditor = new WaveformEditor(
+      document.getElementById('waveformCanvas') as HTMLCanvasElement,
+      {
+        onSeek: (time) => {
+          this.noteAudio.currentTime = time;
+        },
+        onSelectionChange: () => this.updateWaveformControls(),
+      },
+    );
+    this.trimEditor = new TrimEditor(
+      document.getElementById('trimCanvas') as HTMLCanvasElement,
+      () => this.updateTrimSummary(),
+    );
+    this.commands = this.buildCommands();
+    this.commandPalette = new CommandPalette(
+      document.getElementById('commandPalette') as HTMLDivElement,
+      document.getElementById('commandPaletteInput') as HTMLInputElement,
+      document.getElementById('commandPaletteList') as HTMLUListElement,
+      () => this.commands,
+    );
+
+    this.populateLanguageSelects();
+    this.updateLiveTranscriptionButton();
+    this.renderShortcutList();
+    this.renderInputDeviceSelects();
     this.bindEventListeners();
     this.createNewNote();
+    this.loadNoteLibrary();
+    this.loadCustomTemplates();
 
     this.recordingStatus.textContent = 'Sẵn sàng ghi âm';
   }
 
   private bindEventListeners(): void {
     this.recordButton.addEventListener('click', () => this.toggleRecording());
+    this.pauseButton.addEventListener('click', () => this.togglePause());
     this.newButton.addEventListener('click', () => this.createNewNote());
     this.instructionsButton.addEventListener('click', () =>
       this.showInstructions(),
@@ -134,6 +959,440 @@ class VoiceNotesApp {
       }
     });
     window.addEventListener('resize', this.handleResize.bind(this));
+    document.addEventListener('keydown', (e) => this.handleShortcut(e));
+
+    this.micMonitorButton.addEventListener('click', () => {
+      if (this.isMonitoringInput) {
+        this.stopInputMonitor();
+      } else {
+        this.startInputMonitor();
+      }
+    });
+    this.micSelect.addEventListener('change', () =>
+      this.selectInputDevice(this.micSelect.value),
+    );
+    navigator.mediaDevices?.addEventListener('devicechange', () =>
+      this.renderInputDeviceSelects(true),
+    );
+
+    this.sidebarToggleButton.addEventListener('click', () => {
+      // On narrow screens the sidebar is an overlay that starts hidden.
+      const isNarrow = window.matchMedia('(max-width: 768px)').matches;
+      this.sidebar.classList.toggle(isNarrow ? 'is-open' : 'is-collapsed');
+    });
+    this.chatButton.addEventListener('click', () => this.toggleChatPanel());
+    this.insightsButton.addEventListener('click', () =>
+      this.toggleInsightsPanel(),
+    );
+    this.closeInsightsButton.addEventListener('click', () =>
+      this.toggleInsightsPanel(false),
+    );
+    this.extractButton.addEventListener('click', () => {
+      if (this.currentNote) this.extractNoteFields(this.currentNote, true);
+    });
+    for (const button of this.insightsScopeButtons) {
+      button.addEventListener('click', () => {
+        this.insightsScope = button.dataset.insightsScope as 'note' | 'all';
+        this.renderInsights();
+      });
+    }
+    this.todoSearchInput.addEventListener('input', () => this.renderInsights());
+    this.todoStatusSelect.addEventListener('change', () =>
+      this.renderInsights(),
+    );
+    this.closeChatButton.addEventListener('click', () =>
+      this.toggleChatPanel(false),
+    );
+    this.clearChatButton.addEventListener('click', () => this.clearChat());
+    this.chatForm.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.sendChatMessage();
+    });
+    this.chatInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey && !e.isComposing) {
+        e.preventDefault();
+        this.chatForm.requestSubmit();
+      }
+    });
+    this.chatMessages.addEventListener('click', (e) => {
+      const citation = (e.target as HTMLElement).closest<HTMLElement>(
+        '.chat-citation',
+      );
+      if (citation) this.jumpToTranscriptTime(Number(citation.dataset.time));
+    });
+    this.noteSearchInput.addEventListener('input', () => {
+      this.searchQuery = this.noteSearchInput.value.trim();
+      this.renderNoteList();
+    });
+    this.noteSearchInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.noteSearchInput.value) {
+        e.stopPropagation();
+        this.noteSearchInput.value = '';
+        this.searchQuery = '';
+        this.renderNoteList();
+      }
+    });
+    this.editorTitle.addEventListener('input', () => {
+      if (!this.currentNote) return;
+      this.currentNote.title = this.getEditableText(this.editorTitle);
+      this.scheduleAutosave();
+    });
+    this.rawTranscription.addEventListener('input', () => {
+      if (!this.currentNote) return;
+      if (this.currentNote.segments) {
+        const segments = this.readSegmentsFromEditor();
+        this.currentNote.segments = segments.length > 0 ? segments : undefined;
+        this.currentNote.rawTranscription = segmentsToText(
+          segments,
+          this.currentNote.speakerNames,
+        );
+      } else {
+        this.currentNote.rawTranscription = this.getEditableText(
+          this.rawTranscription,
+        );
+      }
+      this.scheduleAutosave();
+    });
+    this.rawTranscription.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const row = target.closest<HTMLElement>('.transcript-segment');
+      if (!row) return;
+      if (target.closest('.segment-time')) {
+        this.seekToSegment(row);
+      } else if (target.closest('.segment-speaker') && row.dataset.speaker) {
+        this.renameSpeaker(row.dataset.speaker);
+      }
+    });
+    // Source links in a digest open the note instead of navigating.
+    this.polishedNote.addEventListener('click', (e) => {
+      const link = (e.target as HTMLElement).closest<HTMLAnchorElement>(
+        'a[href]',
+      );
+      const noteId = link && noteIdFromLink(link.getAttribute('href') || '');
+      if (!noteId) return;
+      e.preventDefault();
+      if (!this.notes.some((n) => n.id === noteId)) {
+        this.recordingStatus.textContent = 'Ghi chú nguồn đã bị xóa.';
+        return;
+      }
+      this.openNote(noteId);
+    });
+    this.polishedNote.addEventListener('input', () => {
+      if (!this.currentNote) return;
+      this.currentNote.polishedHtml = this.polishedNote.classList.contains(
+        'placeholder-active',
+      )
+        ? ''
+        : this.polishedNote.innerHTML;
+      this.scheduleAutosave();
+    });
+
+    this.playPauseButton.addEventListener('click', () => {
+      if (this.noteAudio.paused) {
+        this.noteAudio.play().catch((e) => console.warn('Playback failed', e));
+      } else {
+        this.noteAudio.pause();
+      }
+    });
+    this.noteAudio.addEventListener('play', () => this.updatePlayPauseIcon());
+    this.noteAudio.addEventListener('pause', () => {
+      this.updatePlayPauseIcon();
+      this.highlightPlayingSegment();
+    });
+    this.noteAudio.addEventListener('ended', () => this.updatePlayPauseIcon());
+    this.noteAudio.addEventListener('loadedmetadata', () => {
+      // MediaRecorder WebM files carry no duration header; seeking far past
+      // the end forces the browser to scan the file and report the real one.
+      if (this.noteAudio.duration === Infinity) {
+        this.noteAudio.currentTime = Number.MAX_SAFE_INTEGER;
+        this.noteAudio.addEventListener(
+          'timeupdate',
+          () => {
+            this.noteAudio.currentTime = 0;
+          },
+          {once: true},
+        );
+      }
+      this.updateAudioProgress();
+    });
+    this.noteAudio.addEventListener('durationchange', () =>
+      this.updateAudioProgress(),
+    );
+    this.noteAudio.addEventListener('timeupdate', () => {
+      this.skipCutRegion();
+      this.updateAudioProgress();
+      this.highlightPlayingSegment();
+      this.waveformEditor.setPlayhead(this.noteAudio.currentTime);
+    });
+    this.audioSeekBar.addEventListener('input', () => {
+      const duration = this.noteAudio.duration;
+      if (!isFinite(duration)) return;
+      this.noteAudio.currentTime =
+        (Number(this.audioSeekBar.value) / 1000) * duration;
+    });
+    this.playbackRateSelect.addEventListener('change', () => {
+      this.noteAudio.playbackRate = Number(this.playbackRateSelect.value);
+    });
+
+    this.templateSelect.addEventListener('change', () => {
+      this.selectedTemplateId = this.templateSelect.value;
+      localStorage.setItem(SELECTED_TEMPLATE_KEY, this.selectedTemplateId);
+      if (this.currentNote) {
+        this.currentNote.templateId = this.selectedTemplateId;
+        this.saveCurrentNote();
+      }
+    });
+    this.manageTemplatesButton.addEventListener('click', () =>
+      this.showTemplatesModal(),
+    );
+    this.closeTemplatesButton.addEventListener('click', () =>
+      this.templatesModal.classList.remove('is-visible'),
+    );
+    this.templatesModal.addEventListener('click', (e) => {
+      if (e.target === this.templatesModal) {
+        this.templatesModal.classList.remove('is-visible');
+      }
+    });
+    this.templateForm.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.saveTemplateFromForm();
+    });
+    this.cancelTemplateEditButton.addEventListener('click', () =>
+      this.editTemplate(null),
+    );
+
+    this.repolishButton.addEventListener('click', () =>
+      this.showRepolishModal(),
+    );
+    this.repolishForm.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.repolishModal.classList.remove('is-visible');
+      this.getPolishedNote({
+        templateId: this.repolishTemplateSelect.value,
+        extraInstructions: this.repolishInstructionsInput.value,
+      });
+    });
+    this.cancelRepolishButton.addEventListener('click', () =>
+      this.repolishModal.classList.remove('is-visible'),
+    );
+    this.historyButton.addEventListener('click', () => this.showHistoryModal());
+    this.restoreVersionButton.addEventListener('click', () =>
+      this.restorePolishVersion(),
+    );
+    this.closeHistoryButton.addEventListener('click', () =>
+      this.historyModal.classList.remove('is-visible'),
+    );
+    this.digestButton.addEventListener('click', () => this.showDigestModal());
+    for (const input of [
+      this.digestFromInput,
+      this.digestToInput,
+      this.digestTagSelect,
+    ]) {
+      input.addEventListener('change', () => this.updateDigestCandidates());
+    }
+    this.digestSelectAllButton.addEventListener('click', () => {
+      const selectAll =
+        this.digestSelectedIds.size < this.digestCandidates.length;
+      this.digestSelectedIds = new Set(
+        selectAll ? this.digestCandidates.map((note) => note.id) : [],
+      );
+      this.renderDigestNoteList();
+    });
+    this.digestForm.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.digestModal.classList.remove('is-visible');
+      this.createDigest();
+    });
+    this.cancelDigestButton.addEventListener('click', () =>
+      this.digestModal.classList.remove('is-visible'),
+    );
+    this.waveformToggleButton.addEventListener('click', () => {
+      this.isWaveformVisible = !this.isWaveformVisible;
+      this.loadWaveform();
+    });
+    this.zoomInButton.addEventListener('click', () =>
+      this.waveformEditor.zoomBy(2),
+    );
+    this.zoomOutButton.addEventListener('click', () =>
+      this.waveformEditor.zoomBy(0.5),
+    );
+    this.clearSelectionButton.addEventListener('click', () =>
+      this.waveformEditor.setSelection(null),
+    );
+    this.retranscribeRegionButton.addEventListener('click', () =>
+      this.retranscribeSelection(),
+    );
+    this.cutRegionButton.addEventListener('click', () => this.cutSelection());
+    this.sendTrimmedButton.addEventListener('click', () =>
+      this.finishTrimReview(true),
+    );
+    this.sendUntrimmedButton.addEventListener('click', () =>
+      this.finishTrimReview(false),
+    );
+    this.noteFolderInput.addEventListener('change', () =>
+      this.setNoteFolder(this.noteFolderInput.value),
+    );
+    this.glossaryButton.addEventListener('click', () =>
+      this.showGlossaryModal(),
+    );
+    this.glossaryScopeSelect.addEventListener('change', () => {
+      this.stashGlossaryScope();
+      this.loadGlossaryScope(this.glossaryScopeSelect.value);
+    });
+    this.glossaryForm.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.saveGlossaryDraft();
+      this.glossaryModal.classList.remove('is-visible');
+    });
+    this.applyGlossaryRulesButton.addEventListener('click', () => {
+      this.saveGlossaryDraft();
+      this.glossaryModal.classList.remove('is-visible');
+      this.applyGlossaryRulesToCurrentNote();
+    });
+    this.cancelGlossaryButton.addEventListener('click', () =>
+      this.glossaryModal.classList.remove('is-visible'),
+    );
+    for (const modal of [
+      this.repolishModal,
+      this.historyModal,
+      this.digestModal,
+      this.glossaryModal,
+    ]) {
+      modal.addEventListener('click', (e) => {
+        if (e.target === modal) modal.classList.remove('is-visible');
+      });
+    }
+
+    this.languageButton.addEventListener('click', () => {
+      if (this.currentNote?.translations?.[this.outputLanguage] === undefined) {
+        const suggestion = findLanguage(this.outputLanguage)
+          ? this.outputLanguage
+          : 'en';
+        this.translateLanguageSelect.value = suggestion;
+      }
+      this.languageModal.classList.add('is-visible');
+    });
+    this.closeLanguageButton.addEventListener('click', () =>
+      this.languageModal.classList.remove('is-visible'),
+    );
+    this.languageModal.addEventListener('click', (e) => {
+      if (e.target === this.languageModal) {
+        this.languageModal.classList.remove('is-visible');
+      }
+    });
+    this.transcriptionLanguageSelect.addEventListener('change', () => {
+      this.transcriptionLanguage = this.transcriptionLanguageSelect.value;
+      localStorage.setItem(
+        TRANSCRIPTION_LANGUAGE_KEY,
+        this.transcriptionLanguage,
+      );
+    });
+    this.outputLanguageSelect.addEventListener('change', () => {
+      this.outputLanguage = this.outputLanguageSelect.value;
+      localStorage.setItem(OUTPUT_LANGUAGE_KEY, this.outputLanguage);
+    });
+    this.translateButton.addEventListener('click', () => {
+      this.languageModal.classList.remove('is-visible');
+      this.translateNote(this.translateLanguageSelect.value);
+    });
+    this.variantSelect.addEventListener('change', () =>
+      this.showVariant(this.variantSelect.value || null),
+    );
+
+    this.settingsButton.addEventListener('click', () =>
+      this.showSettingsModal(),
+    );
+    this.cancelSettingsButton.addEventListener('click', () =>
+      this.settingsModal.classList.remove('is-visible'),
+    );
+    this.settingsModal.addEventListener('click', (e) => {
+      if (e.target === this.settingsModal) {
+        this.settingsModal.classList.remove('is-visible');
+      }
+    });
+    this.providerSelect.addEventListener('change', () =>
+      this.updateProviderFields(),
+    );
+    this.settingsForm.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.saveSettings();
+    });
+
+    this.exportButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.toggleExportMenu();
+    });
+    this.exportMenu.addEventListener('click', (e) => {
+      const item = (e.target as HTMLElement).closest<HTMLButtonElement>(
+        '[data-export-format]',
+      );
+      if (!item || item.disabled) return;
+      this.exportMenu.classList.add('hidden');
+      this.exportNote(item.dataset.exportFormat as ExportFormat);
+    });
+    document.addEventListener('click', (e) => {
+      if (!this.exportMenu.contains(e.target as Node)) {
+        this.exportMenu.classList.add('hidden');
+      }
+    });
+
+    this.retryTranscriptionButton.addEventListener('click', () => {
+      if (this.currentNote) this.retryNote(this.currentNote);
+    });
+    this.cancelStreamButton.addEventListener('click', () =>
+      this.cancelStream(true),
+    );
+    window.addEventListener('online', () => {
+      this.renderPendingQueue();
+      this.runPendingQueue();
+    });
+    window.addEventListener('offline', () => this.renderPendingQueue());
+    this.liveTranscriptionButton.addEventListener('click', () => {
+      this.liveTranscriptionEnabled = !this.liveTranscriptionEnabled;
+      localStorage.setItem(
+        LIVE_TRANSCRIPTION_KEY,
+        String(this.liveTranscriptionEnabled),
+      );
+      this.updateLiveTranscriptionButton();
+      this.recordingStatus.textContent = this.liveTranscriptionEnabled
+        ? 'Đã bật phiên âm trực tiếp khi ghi âm.'
+        : 'Đã tắt phiên âm trực tiếp.';
+    });
+    this.importButton.addEventListener('click', () =>
+      this.importFileInput.click(),
+    );
+    this.importFileInput.addEventListener('change', () => {
+      const file = this.importFileInput.files?.[0];
+      // Reset so picking the same file again still fires `change`.
+      this.importFileInput.value = '';
+      if (file) this.importFile(file);
+    });
+    this.noteArea.addEventListener('dragover', (e) => {
+      if (!e.dataTransfer?.types.includes('Files')) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+      this.noteArea.classList.add('is-drag-over');
+    });
+    this.noteArea.addEventListener('dragleave', (e) => {
+      if (!this.noteArea.contains(e.relatedTarget as Node | null)) {
+        this.noteArea.classList.remove('is-drag-over');
+      }
+    });
+    this.noteArea.addEventListener('drop', (e) => {
+      if (!e.dataTransfer?.types.includes('Files')) return;
+      e.preventDefault();
+      this.noteArea.classList.remove('is-drag-over');
+      const files = e.dataTransfer.files;
+      if (files.length > 1) {
+        this.recordingStatus.textContent = 'Vui lòng chỉ thả một tệp mỗi lần.';
+        return;
+      }
+      if (files[0]) this.importFile(files[0]);
+    });
+
+    window.addEventListener('beforeunload', () => {
+      if (this.autosaveTimeoutId) this.saveCurrentNote();
+    });
   }
 
   private showInstructions(): void {
@@ -144,7 +1403,220 @@ class VoiceNotesApp {
     this.instructionsModal.classList.remove('is-visible');
   }
 
+  private buildCommands(): Command[] {
+    const hasRawText = () => !!this.currentNote?.rawTranscription.trim();
+    return [
+      {
+        id: 'record',
+        label: 'Bắt đầu/Dừng ghi âm',
+        icon: 'fa-microphone',
+        shortcut: {code: 'KeyR', alt: true},
+        run: () => this.toggleRecording(),
+      },
+      {
+        id: 'pause',
+        label: 'Tạm dừng/Tiếp tục ghi âm',
+        icon: 'fa-pause',
+        shortcut: {code: 'KeyP', alt: true},
+        run: () => this.togglePause(),
+        isAvailable: () => this.isRecording,
+      },
+      {
+        id: 'new',
+        label: 'Ghi chú mới',
+        icon: 'fa-file',
+        shortcut: {code: 'KeyN', alt: true},
+        run: () => this.createNewNote(),
+        isAvailable: () => !this.isRecording,
+      },
+      {
+        id: 'tab-note',
+        label: 'Xem ghi chú đã trau chuốt',
+        icon: 'fa-file-lines',
+        shortcut: {code: 'Digit1', alt: true},
+        run: () => this.showTab('note'),
+      },
+      {
+        id: 'tab-raw',
+        label: 'Xem bản thô',
+        icon: 'fa-align-left',
+        shortcut: {code: 'Digit2', alt: true},
+        run: () => this.showTab('raw'),
+      },
+      {
+        id: 'repolish',
+        label: 'Trau chuốt lại',
+        icon: 'fa-wand-magic-sparkles',
+        shortcut: {code: 'KeyP', alt: true, shift: true},
+        run: () => this.showRepolishModal(),
+        isAvailable: hasRawText,
+      },
+      {
+        id: 'export',
+        label: 'Xuất ghi chú',
+        icon: 'fa-file-export',
+        shortcut: {code: 'KeyE', alt: true},
+        run: () => this.toggleExportMenu(),
+      },
+      {
+        id: 'search',
+        label: 'Tìm kiếm ghi chú',
+        icon: 'fa-magnifying-glass',
+        shortcut: {key: '/'},
+        run: () => this.focusNoteSearch(),
+      },
+      {
+        id: 'history',
+        label: 'Lịch sử phiên bản',
+        icon: 'fa-clock-rotate-left',
+        run: () => this.showHistoryModal(),
+      },
+      {
+        id: 'language',
+        label: 'Ngôn ngữ và bản dịch',
+        icon: 'fa-language',
+        run: () => this.languageButton.click(),
+      },
+      {
+        id: 'chat',
+        label: 'Hỏi đáp về ghi chú',
+        icon: 'fa-comments',
+        run: () => this.toggleChatPanel(true),
+        isAvailable: hasRawText,
+      },
+      {
+        id: 'retranscribe-region',
+        label: 'Phiên âm lại vùng đã chọn trên dạng sóng',
+        icon: 'fa-rotate',
+        run: () => this.retranscribeSelection(),
+        isAvailable: () => !this.retranscribeRegionButton.disabled,
+      },
+      {
+        id: 'cut-region',
+        label: 'Cắt vùng đã chọn khỏi bản ghi',
+        icon: 'fa-scissors',
+        run: () => this.cutSelection(),
+        isAvailable: () => !this.cutRegionButton.disabled,
+      },
+      {
+        id: 'glossary',
+        label: 'Từ điển riêng và quy tắc thay thế',
+        icon: 'fa-book',
+        run: () => this.showGlossaryModal(),
+      },
+      {
+        id: 'digest',
+        label: 'Tổng hợp nhiều ghi chú',
+        icon: 'fa-layer-group',
+        run: () => this.showDigestModal(),
+        isAvailable: () => !this.isRecording,
+      },
+      {
+        id: 'insights',
+        label: 'Việc cần làm và thông tin trích xuất',
+        icon: 'fa-list-check',
+        run: () => this.toggleInsightsPanel(true),
+      },
+      {
+        id: 'templates',
+        label: 'Quản lý mẫu trau chuốt',
+        icon: 'fa-sliders',
+        run: () => this.showTemplatesModal(),
+      },
+      {
+        id: 'live-transcription',
+        label: 'Bật/Tắt phiên âm trực tiếp',
+        icon: 'fa-closed-captioning',
+        run: () => this.liveTranscriptionButton.click(),
+      },
+      {
+        id: 'mic-check',
+        label: 'Kiểm tra micrô',
+        icon: 'fa-microphone-lines',
+        run: () => this.micMonitorButton.click(),
+        isAvailable: () => !this.isRecording,
+      },
+      {
+        id: 'import',
+        label: 'Nhập tệp âm thanh/video',
+        icon: 'fa-file-import',
+        run: () => this.importFileInput.click(),
+        isAvailable: () => !this.isRecording,
+      },
+      {
+        id: 'sidebar',
+        label: 'Ẩn/Hiện danh sách ghi chú',
+        icon: 'fa-bars',
+        run: () => this.sidebarToggleButton.click(),
+      },
+      {
+        id: 'settings',
+        label: 'Cài đặt',
+        icon: 'fa-gear',
+        run: () => this.showSettingsModal(),
+      },
+      {
+        id: 'instructions',
+        label: 'Hướng dẫn sử dụng',
+        icon: 'fa-circle-question',
+        run: () => this.showInstructions(),
+      },
+    ];
+  }
+
+  private handleShortcut(e: KeyboardEvent): void {
+    if (e.isComposing || e.repeat) return;
+    // The palette opens from anywhere, even while typing in a note.
+    if (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey) && !e.altKey) {
+      e.preventDefault();
+      if (this.commandPalette.isOpen) {
+        this.commandPalette.close();
+      } else {
+        this.commandPalette.open();
+      }
+      return;
+    }
+    if (isEditableTarget(e.target)) return;
+    // Leave keys alone while a dialog is open over the note.
+    if (document.querySelector('.modal-overlay.is-visible')) return;
+
+    const command = this.commands.find(
+      (c) => c.shortcut && matchesShortcut(e, c.shortcut),
+    );
+    if (!command || (command.isAvailable && !command.isAvailable())) return;
+    e.preventDefault();
+    command.run();
+  }
+
+  private renderShortcutList(): void {
+    this.shortcutList.innerHTML = '';
+    const palette = document.createElement('li');
+    palette.innerHTML = `<kbd>${formatShortcut({code: 'KeyK', mod: true})}</kbd> Bảng lệnh: tìm và chạy mọi thao tác`;
+    this.shortcutList.appendChild(palette);
+    for (const command of this.commands) {
+      if (!command.shortcut) continue;
+      const item = document.createElement('li');
+      const key = document.createElement('kbd');
+      key.textContent = formatShortcut(command.shortcut);
+      item.append(key, ` ${command.label}`);
+      this.shortcutList.appendChild(item);
+    }
+  }
+
+  private focusNoteSearch(): void {
+    // Make sure the sidebar holding the search box is showing.
+    const isNarrow = window.matchMedia('(max-width: 768px)').matches;
+    this.sidebar.classList.toggle(
+      isNarrow ? 'is-open' : 'is-collapsed',
+      isNarrow,
+    );
+    this.noteSearchInput.focus();
+    this.noteSearchInput.select();
+  }
+
   private handleResize(): void {
+    if (this.trimReview) this.trimEditor.render();
+    this.waveformEditor.render();
     if (
       this.isRecording &&
       this.liveWaveformCanvas &&
@@ -193,29 +1665,202 @@ class VoiceNotesApp {
 
     const bufferLength = this.analyserNode.frequencyBinCount;
     this.waveformDataArray = new Uint8Array(bufferLength);
+    this.levelBuffer = new Uint8Array(this.analyserNode.fftSize);
 
     source.connect(this.analyserNode);
   }
 
-  private drawLiveWaveform(): void {
-    if (
-      !this.analyserNode ||
-      !this.waveformDataArray ||
-      !this.liveWaveformCtx ||
-      !this.liveWaveformCanvas ||
-      !this.isRecording
-    ) {
-      if (this.waveformDrawingId) cancelAnimationFrame(this.waveformDrawingId);
-      this.waveformDrawingId = null;
-      return;
+  /**
+   * Opens the selected microphone. If it cannot be opened, for example
+   * because it was unplugged, the system default is used instead and the
+   * user is told so rather than recording from an unexpected device.
+   */
+  private async acquireInputStream(): Promise<MediaStream> {
+    const constraints = buildAudioConstraints(this.settings);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({audio: constraints});
+    } catch (err) {
+      if (!this.settings.inputDeviceId) throw err;
+      console.warn('Selected microphone unavailable, using default:', err);
+      const {deviceId, ...defaultConstraints} = constraints;
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: defaultConstraints,
+      });
+      this.recordingStatus.textContent =
+        'Không mở được micrô đã chọn, đang dùng micrô mặc định.';
     }
 
-    this.waveformDrawingId = requestAnimationFrame(() =>
-      this.drawLiveWaveform(),
-    );
-    this.analyserNode.getByteFrequencyData(this.waveformDataArray);
-
-    const ctx = this.liveWaveformCtx;
+    const track = stream.getAudioTracks()[0];
+    this.micSelect.title = track?.label
+      ? `Micrô đang dùng: ${track.label}`
+      : 'Micrô';
+    track?.addEventListener('ended', () => {
+      if (this.isRecording) {
+        this.showInputWarning('Micrô đã bị ngắt kết nối. Hãy dừng ghi âm.');
+        this.inputWarning.dataset.sticky = 'true';
+      } else if (this.isMonitoringInput) {
+        this.stopInputMonitor();
+      }
+    });
+    // Device names are only available once access has been granted.
+    this.renderInputDeviceSelects();
+    return stream;
+  }
+
+  private async startInputMonitor(): Promise<void> {
+    if (this.isRecording || this.isMonitoringInput) return;
+    try {
+      this.stream = await this.acquireInputStream();
+    } catch (error) {
+      console.error('Error opening microphone for level check:', error);
+      this.recordingStatus.textContent =
+        'Không mở được micrô. Vui lòng kiểm tra quyền truy cập micrô.';
+      return;
+    }
+    if (this.isRecording) return;
+    this.isMonitoringInput = true;
+    this.micMonitorButton.classList.add('active');
+    this.micMonitorButton.title = 'Dừng kiểm tra micrô';
+    this.setupAudioVisualizer();
+    this.trackInputLevel();
+    const label = this.stream.getAudioTracks()[0]?.label;
+    this.recordingStatus.textContent = label
+      ? `Đang kiểm tra micrô: ${label}`
+      : 'Đang kiểm tra micrô...';
+  }
+
+  private stopInputMonitor(): void {
+    if (!this.isMonitoringInput) return;
+    this.isMonitoringInput = false;
+    this.micMonitorButton.classList.remove('active');
+    this.micMonitorButton.title = 'Kiểm tra micrô';
+    this.stopLevelMeter();
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    if (this.audioContext && this.audioContext.state !== 'closed') {
+      this.audioContext
+        .close()
+        .catch((e) => console.warn('Error closing audio context', e));
+    }
+    this.audioContext = null;
+    this.analyserNode = null;
+    this.waveformDataArray = null;
+    this.recordingStatus.textContent = 'Sẵn sàng ghi âm';
+  }
+
+  // Drives the level meter during the mic check and the input warnings
+  // during a recording, from the same analyser as the waveform.
+  private trackInputLevel(): void {
+    if (
+      !this.analyserNode ||
+      !this.levelBuffer ||
+      !(this.isMonitoringInput || this.isRecording)
+    ) {
+      this.stopLevelMeter();
+      return;
+    }
+    this.levelMeterId = requestAnimationFrame(() => this.trackInputLevel());
+
+    const level = measureInputLevel(this.analyserNode, this.levelBuffer);
+    this.levelMeterFill.style.width = `${levelToMeterFraction(level) * 100}%`;
+    this.levelMeterFill.classList.toggle('is-clipping', level.peak >= 0.98);
+
+    if (!this.isRecording) return;
+    if (this.isPaused) {
+      this.inputLevelWatcher.reset();
+      this.showInputWarning(null);
+      return;
+    }
+    const warning = this.inputLevelWatcher.update(level, Date.now());
+    this.showInputWarning(warning ? INPUT_WARNING_MESSAGES[warning] : null);
+  }
+
+  private stopLevelMeter(): void {
+    if (this.levelMeterId) cancelAnimationFrame(this.levelMeterId);
+    this.levelMeterId = null;
+    this.levelMeterFill.style.width = '0';
+    this.levelMeterFill.classList.remove('is-clipping');
+  }
+
+  private showInputWarning(message: string | null): void {
+    // A lost device stays reported until the recording ends.
+    if (this.inputWarning.dataset.sticky) return;
+    this.inputWarning.textContent = message || '';
+    this.inputWarning.classList.toggle('hidden', !message);
+  }
+
+  private async renderInputDeviceSelects(fromDeviceChange = false) {
+    let devices: Array<{deviceId: string; label: string}> = [];
+    try {
+      devices = await getInputDevices();
+    } catch (error) {
+      console.error('Error listing microphones:', error);
+    }
+    const ids = devices.map((device) => device.deviceId);
+    const selectedId = this.settings.inputDeviceId;
+    if (
+      fromDeviceChange &&
+      selectedId &&
+      this.knownInputDeviceIds.includes(selectedId) &&
+      !ids.includes(selectedId)
+    ) {
+      this.settings = {...this.settings, inputDeviceId: ''};
+      saveAppSettings(this.settings);
+      if (!this.isRecording) {
+        this.recordingStatus.textContent =
+          'Micrô đã chọn vừa bị ngắt. Sẽ dùng micrô mặc định.';
+      }
+    }
+    this.knownInputDeviceIds = ids;
+
+    for (const select of [this.micSelect, this.inputDeviceSelect]) {
+      select.innerHTML = '';
+      select.add(new Option('Micrô mặc định', ''));
+      for (const device of devices) {
+        select.add(new Option(device.label, device.deviceId));
+      }
+      const current = this.settings.inputDeviceId;
+      // Before access is granted devices cannot be listed, so a saved
+      // choice may be missing from the list without being unplugged.
+      if (current && !ids.includes(current)) {
+        select.add(new Option('Micrô đã chọn', current));
+      }
+      select.value = current;
+    }
+  }
+
+  private async selectInputDevice(deviceId: string): Promise<void> {
+    this.settings = {...this.settings, inputDeviceId: deviceId};
+    saveAppSettings(this.settings);
+    this.inputDeviceSelect.value = deviceId;
+    if (this.isMonitoringInput) {
+      this.stopInputMonitor();
+      await this.startInputMonitor();
+    } else if (this.isRecording) {
+      this.recordingStatus.textContent =
+        'Micrô mới sẽ được dùng từ lần ghi âm sau.';
+    }
+  }
+
+  private drawLiveWaveform(): void {
+    if (
+      !this.analyserNode ||
+      !this.waveformDataArray ||
+      !this.liveWaveformCtx ||
+      !this.liveWaveformCanvas ||
+      !this.isRecording
+    ) {
+      if (this.waveformDrawingId) cancelAnimationFrame(this.waveformDrawingId);
+      this.waveformDrawingId = null;
+      return;
+    }
+
+    this.waveformDrawingId = requestAnimationFrame(() =>
+      this.drawLiveWaveform(),
+    );
+
+    const ctx = this.liveWaveformCtx;
     const canvas = this.liveWaveformCanvas;
 
     const logicalWidth = canvas.clientWidth;
@@ -223,6 +1868,25 @@ class VoiceNotesApp {
 
     ctx.clearRect(0, 0, logicalWidth, logicalHeight);
 
+    if (this.isPaused) {
+      // Nothing is being captured, so show a flat dashed line instead of
+      // the live bars.
+      ctx.strokeStyle =
+        getComputedStyle(document.documentElement)
+          .getPropertyValue('--color-text-tertiary')
+          .trim() || '#999999';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 6]);
+      ctx.beginPath();
+      ctx.moveTo(0, logicalHeight / 2);
+      ctx.lineTo(logicalWidth, logicalHeight / 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      return;
+    }
+
+    this.analyserNode.getByteFrequencyData(this.waveformDataArray);
+
     const bufferLength = this.analyserNode.frequencyBinCount;
     const numBars = Math.floor(bufferLength * 0.5);
 
@@ -260,7 +1924,9 @@ class VoiceNotesApp {
   private updateLiveTimer(): void {
     if (!this.isRecording || !this.liveRecordingTimerDisplay) return;
     const now = Date.now();
-    const elapsedMs = now - this.recordingStartTime;
+    const currentPauseMs = this.isPaused ? now - this.pauseStartTime : 0;
+    const elapsedMs =
+      now - this.recordingStartTime - this.pausedDurationMs - currentPauseMs;
 
     const totalSeconds = Math.floor(elapsedMs / 1000);
     const minutes = Math.floor(totalSeconds / 60);
@@ -307,16 +1973,60 @@ class VoiceNotesApp {
       currentTitle && currentTitle !== placeholder
         ? currentTitle
         : 'Bản ghi mới';
+    this.liveRecordingTitle.dataset.title = this.liveRecordingTitle.textContent;
 
     this.setupAudioVisualizer();
     this.drawLiveWaveform();
+    this.inputLevelWatcher.reset();
+    delete this.inputWarning.dataset.sticky;
+    this.showInputWarning(null);
+    if (!this.levelMeterId) this.trackInputLevel();
 
     this.recordingStartTime = Date.now();
+    this.pausedDurationMs = 0;
+    this.setPaused(false);
     this.updateLiveTimer();
     if (this.timerIntervalId) clearInterval(this.timerIntervalId);
     this.timerIntervalId = window.setInterval(() => this.updateLiveTimer(), 50);
   }
 
+  private togglePause(): void {
+    if (!this.isRecording || !this.mediaRecorder) return;
+
+    try {
+      if (this.isPaused) {
+        this.mediaRecorder.resume();
+        this.pausedDurationMs += Date.now() - this.pauseStartTime;
+        this.setPaused(false);
+      } else {
+        this.mediaRecorder.pause();
+        this.pauseStartTime = Date.now();
+        this.setPaused(true);
+      }
+    } catch (e) {
+      console.error('Error toggling pause:', e);
+    }
+  }
+
+  private setPaused(paused: boolean): void {
+    this.isPaused = paused;
+    this.recordingInterface?.classList.toggle('is-paused', paused);
+
+    const icon = this.pauseButton.querySelector('i');
+    if (icon) {
+      icon.classList.toggle('fa-pause', !paused);
+      icon.classList.toggle('fa-play', paused);
+    }
+    this.pauseButton.setAttribute('title', paused ? 'Tiếp tục' : 'Tạm dừng');
+
+    if (this.liveRecordingTitle && this.isRecording) {
+      const title = this.liveRecordingTitle.dataset.title || '';
+      this.liveRecordingTitle.textContent = paused
+        ? `${title} (Đã tạm dừng)`
+        : title;
+    }
+  }
+
   private stopLiveDisplay(): void {
     if (
       !this.recordingInterface ||
@@ -329,6 +2039,7 @@ class VoiceNotesApp {
       return;
     }
     this.recordingInterface.classList.remove('is-live');
+    this.setPaused(false);
     this.liveRecordingTitle.style.display = 'none';
     this.liveWaveformCanvas.style.display = 'none';
     this.liveRecordingTimerDisplay.style.display = 'none';
@@ -348,6 +2059,9 @@ class VoiceNotesApp {
       cancelAnimationFrame(this.waveformDrawingId);
       this.waveformDrawingId = null;
     }
+    this.stopLevelMeter();
+    delete this.inputWarning.dataset.sticky;
+    this.showInputWarning(null);
     if (this.timerIntervalId) {
       clearInterval(this.timerIntervalId);
       this.timerIntervalId = null;
@@ -371,33 +2085,31 @@ class VoiceNotesApp {
     }
     this.analyserNode = null;
     this.waveformDataArray = null;
+    this.levelBuffer = null;
   }
 
   private async startRecording(): Promise<void> {
     try {
       this.audioChunks = [];
-      if (this.stream) {
-        this.stream.getTracks().forEach((track) => track.stop());
-        this.stream = null;
-      }
-      if (this.audioContext && this.audioContext.state !== 'closed') {
-        await this.audioContext.close();
-        this.audioContext = null;
-      }
-
-      this.recordingStatus.textContent = 'Đang yêu cầu quyền truy cập micrô...';
+      if (this.isMonitoringInput && this.stream) {
+        // Record from the stream the mic check already opened; its analyser
+        // carries on driving the waveform.
+        this.isMonitoringInput = false;
+        this.micMonitorButton.classList.remove('active');
+        this.micMonitorButton.title = 'Kiểm tra micrô';
+      } else {
+        if (this.stream) {
+          this.stream.getTracks().forEach((track) => track.stop());
+          this.stream = null;
+        }
+        if (this.audioContext && this.audioContext.state !== 'closed') {
+          await this.audioContext.close();
+          this.audioContext = null;
+        }
 
-      try {
-        this.stream = await navigator.mediaDevices.getUserMedia({audio: true});
-      } catch (err) {
-        console.error('Failed with basic constraints:', err);
-        this.stream = await navigator.mediaDevices.getUserMedia({
-          audio: {
-            echoCancellation: false,
-            noiseSuppression: false,
-            autoGainControl: false,
-          },
-        });
+        this.recordingStatus.textContent =
+          'Đang yêu cầu quyền truy cập micrô...';
+        this.stream = await this.acquireInputStream();
       }
 
       try {
@@ -410,11 +2122,20 @@ class VoiceNotesApp {
       }
 
       this.mediaRecorder.ondataavailable = (event) => {
-        if (event.data && event.data.size > 0)
+        if (event.data && event.data.size > 0) {
           this.audioChunks.push(event.data);
+          this.liveTranscriber?.addChunk(event.data);
+          if (this.liveTranscriber && !this.liveTranscriber.isSupported) {
+            this.stopLiveTranscription();
+            this.renderLiveTranscript(
+              'Trình duyệt này ghi âm ở định dạng không hỗ trợ phiên âm trực tiếp. Bản ghi sẽ được phiên âm khi dừng.',
+            );
+          }
+        }
       };
 
       this.mediaRecorder.onstop = () => {
+        this.stopLiveTranscription();
         this.stopLiveDisplay();
 
         if (this.audioChunks.length > 0) {
@@ -428,6 +2149,7 @@ class VoiceNotesApp {
         } else {
           this.recordingStatus.textContent =
             'Không có dữ liệu âm thanh nào được ghi lại. Vui lòng thử lại.';
+          this.renderCurrentRawTranscription();
         }
 
         if (this.stream) {
@@ -438,7 +2160,12 @@ class VoiceNotesApp {
         }
       };
 
-      this.mediaRecorder.start();
+      if (this.liveTranscriptionEnabled) {
+        this.startLiveTranscription(this.mediaRecorder.mimeType);
+        this.mediaRecorder.start(LIVE_TIMESLICE_MS);
+      } else {
+        this.mediaRecorder.start();
+      }
       this.isRecording = true;
 
       this.recordButton.classList.add('recording');
@@ -477,6 +2204,7 @@ class VoiceNotesApp {
       }
 
       this.isRecording = false;
+      this.stopLiveTranscription();
       if (this.stream) {
         this.stream.getTracks().forEach((track) => track.stop());
         this.stream = null;
@@ -506,6 +2234,66 @@ class VoiceNotesApp {
     }
   }
 
+  private updateLiveTranscriptionButton(): void {
+    this.liveTranscriptionButton.classList.toggle(
+      'active',
+      this.liveTranscriptionEnabled,
+    );
+    this.liveTranscriptionButton.setAttribute(
+      'title',
+      this.liveTranscriptionEnabled
+        ? 'Phiên âm trực tiếp: bật'
+        : 'Phiên âm trực tiếp: tắt',
+    );
+  }
+
+  private startLiveTranscription(mimeType: string): void {
+    const transcriber = new LiveTranscriber(
+      mimeType || 'audio/webm',
+      (slice) => this.transcribeLiveSlice(slice),
+      (text) => {
+        if (this.liveTranscriber === transcriber) {
+          this.renderLiveTranscript(text);
+        }
+      },
+    );
+    this.liveTranscriber = transcriber;
+    this.showTab('raw');
+    this.renderLiveTranscript('');
+  }
+
+  // Leaves the provisional text on screen; the final transcript replaces it
+  // as soon as the full recording starts coming back.
+  private stopLiveTranscription(): void {
+    if (!this.liveTranscriber) return;
+    this.liveTranscriber.stop();
+    this.liveTranscriber = null;
+  }
+
+  private async transcribeLiveSlice(slice: Blob): Promise<string> {
+    const {terms} = this.getGlossary(this.currentNote);
+    const response = await this.provider.transcribe({
+      audio: slice,
+      mimeType: slice.type,
+      prompt: buildLiveTranscriptPrompt(
+        this.transcriptionLanguage,
+        describeGlossaryForTranscription(terms),
+      ),
+      languageCode: this.transcriptionLanguage,
+      vocabulary: terms,
+      timed: false,
+    });
+    return (await readAllText(response)).trim();
+  }
+
+  private renderLiveTranscript(text: string): void {
+    this.rawTranscription.contentEditable = 'false';
+    this.rawTranscription.classList.add('is-provisional');
+    this.rawTranscription.classList.remove('placeholder-active');
+    this.rawTranscription.textContent = text || 'Đang nghe...';
+    this.rawTranscription.scrollTop = this.rawTranscription.scrollHeight;
+  }
+
   private async processAudio(audioBlob: Blob): Promise<void> {
     if (audioBlob.size === 0) {
       this.recordingStatus.textContent =
@@ -513,105 +2301,324 @@ class VoiceNotesApp {
       return;
     }
 
+    this.preparingAudio = audioBlob;
     try {
-      URL.createObjectURL(audioBlob);
-
-      this.recordingStatus.textContent = 'Đang chuyển đổi âm thanh...';
+      await this.attachAudioToNote(audioBlob);
+      const note = this.currentNote;
+      if (!note) return;
+      note.retryCount = undefined;
+      this.setProcessingState(note, 'recorded');
 
-      const reader = new FileReader();
-      const readResult = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          try {
-            const base64data = reader.result as string;
-            const base64Audio = base64data.split(',')[1];
-            resolve(base64Audio);
-          } catch (err) {
-            reject(err);
-          }
-        };
-        reader.onerror = () => reject(reader.error);
-      });
-      reader.readAsDataURL(audioBlob);
-      const base64Audio = await readResult;
+      if (!navigator.onLine) {
+        this.renderCurrentRawTranscription();
+        this.markProcessingFailed(
+          note,
+          'transcribing',
+          new Error('Không có kết nối mạng.'),
+        );
+        this.recordingStatus.textContent =
+          'Không có kết nối mạng. Bản ghi đã được lưu vào hàng chờ và sẽ được xử lý khi có mạng.';
+        return;
+      }
 
-      if (!base64Audio) throw new Error('Không thể chuyển đổi âm thanh sang base64');
+      this.recordingStatus.textContent = 'Đang chuyển đổi âm thanh...';
+      const chunks = await this.prepareTranscriptionChunks(
+        note,
+        audioBlob,
+        true,
+      );
+      this.stopPreparingAudio(audioBlob);
 
-      const mimeType = this.mediaRecorder?.mimeType || 'audio/webm';
-      await this.getTranscription(base64Audio, mimeType);
+      this.transcriptionJob = {noteId: note.id, chunks, results: []};
+      await this.getTranscription();
     } catch (error) {
       console.error('Error in processAudio:', error);
+      this.renderCurrentRawTranscription();
       this.recordingStatus.textContent =
         'Lỗi xử lý bản ghi. Vui lòng thử lại.';
+    } finally {
+      this.stopPreparingAudio(audioBlob);
     }
   }
 
-  private async getTranscription(
-    base64Audio: string,
-    mimeType: string,
-  ): Promise<void> {
+  /**
+   * Ends the waveform's wait for the transcription decode, decoding the
+   * levels itself if that decode did not provide them.
+   */
+  private stopPreparingAudio(audio: Blob): void {
+    if (this.preparingAudio !== audio) return;
+    this.preparingAudio = null;
+    if (this.waveformSource === audio && !this.waveformLevels) {
+      this.waveformSource = null;
+      this.loadWaveform();
+    }
+  }
+
+  /**
+   * Turns a recording into the chunks sent for transcription, cutting
+   * silence first when that is turned on. With `review`, the user sees the
+   * cuts and can adjust them; otherwise the regions chosen last time, or an
+   * automatic trim, are used. The kept regions are stored on the note so
+   * transcript times can be mapped back to the saved recording.
+   *
+   * Only recordings large enough to be chunked are trimmed: those are
+   * re-encoded as WAV anyway, so trimming shrinks the upload. Smaller ones
+   * are sent compressed as recorded, which a trimmed WAV would outgrow.
+   */
+  private async prepareTranscriptionChunks(
+    note: Note,
+    audio: Blob,
+    review: boolean,
+  ): Promise<AudioChunk[]> {
+    const cuts = note.cutRegions || [];
+    const shouldTrim =
+      this.settings.trimSilence && audio.size > CHUNKING_THRESHOLD_BYTES;
+    const sendsWhole =
+      (!shouldTrim && !note.keptRegions) || note.keptRegions?.length === 0;
+    if (sendsWhole && cuts.length === 0) {
+      return splitAudioIntoChunks(audio);
+    }
+    let analysis: RecordingAnalysis;
     try {
-      this.recordingStatus.textContent = 'Đang lấy bản ghi âm...';
+      analysis = await analyzeRecording(audio);
+    } catch (error) {
+      console.warn('Could not decode audio for trimming:', error);
+      note.keptRegions = undefined;
+      return splitAudioIntoChunks(audio);
+    }
+    this.showWaveformLevels(audio, analysis);
 
-      const contents = [
-        {text: 'Generate a complete, detailed transcript of this audio.'},
-        {inlineData: {mimeType: mimeType, data: base64Audio}},
-      ];
+    let regions = sendsWhole ? [] : note.keptRegions;
+    if (!regions) {
+      const plan = planTrim(analysis);
+      regions = getKeptRegions(plan);
+      // Only ask when the proposed trim would actually be sent.
+      if (
+        review &&
+        this.settings.reviewTrim &&
+        !keepsWholeRecording(regions, analysis.duration)
+      ) {
+        const chosen = await this.reviewTrim(analysis, plan);
+        regions = chosen ? getKeptRegions(chosen) : [];
+      }
+    }
+    if (keepsWholeRecording(regions, analysis.duration)) regions = [];
+    if (cuts.length === 0) {
+      // Sending it whole is remembered as well, so a retry sends the
+      // original again without decoding it, rather than trimming it after
+      // the user chose not to.
+      note.keptRegions = regions;
+      return regions.length === 0
+        ? splitAudioIntoChunks(audio)
+        : encodeKeptRegions(analysis, regions);
+    }
 
-      const response = await this.genAI.models.generateContent({
-        model: MODEL_NAME,
-        contents: contents,
-      });
+    // Parts cut in the waveform editor are never sent.
+    const sent = excludeRanges(
+      regions.length > 0 ? regions : [{start: 0, end: analysis.duration}],
+      cuts,
+    );
+    if (sent.length === 0) {
+      throw new Error('Không còn âm thanh nào để phiên âm sau khi cắt.');
+    }
+    note.keptRegions = sent;
+    return encodeKeptRegions(analysis, sent);
+  }
 
-      // FIX: The .text property on a GenerateContentResponse is a string, not a promise.
-      const transcriptionText = response.text;
+  private reviewTrim(
+    analysis: RecordingAnalysis,
+    plan: TrimPlan,
+  ): Promise<TrimPlan | null> {
+    return new Promise((resolve) => {
+      this.trimReview = {analysis, plan, resolve};
+      this.trimModal.classList.add('is-visible');
+      // Drawn once the dialog is showing, so the canvas has its size.
+      this.trimEditor.load(analysis, plan);
+      this.updateTrimSummary();
+      this.recordingStatus.textContent =
+        'Kiểm tra đoạn cắt khoảng lặng trước khi gửi.';
+    });
+  }
 
-      if (transcriptionText) {
-        this.rawTranscription.textContent = transcriptionText;
-        if (transcriptionText.trim() !== '') {
-          this.rawTranscription.classList.remove('placeholder-active');
-        } else {
-          const placeholder =
-            this.rawTranscription.getAttribute('placeholder') || '';
-          this.rawTranscription.textContent = placeholder;
-          this.rawTranscription.classList.add('placeholder-active');
-        }
+  private updateTrimSummary(): void {
+    if (!this.trimReview) return;
+    const {analysis, plan} = this.trimReview;
+    const kept = getTotalDuration(getKeptRegions(plan));
+    const removed = Math.max(0, analysis.duration - kept);
+    this.trimSummary.textContent = `Gửi ${formatTimestamp(kept)} trên tổng ${formatTimestamp(analysis.duration)} (bỏ ${formatTimestamp(removed)}).`;
+    this.sendTrimmedButton.disabled = kept === 0;
+  }
 
-        if (this.currentNote)
-          this.currentNote.rawTranscription = transcriptionText;
-        this.recordingStatus.textContent =
-          'Ghi âm hoàn tất. Đang trau chuốt ghi chú...';
-        this.getPolishedNote().catch((err) => {
-          console.error('Error polishing note:', err);
-          this.recordingStatus.textContent =
-            'Lỗi trau chuốt ghi chú sau khi ghi âm.';
-        });
-      } else {
+  private finishTrimReview(trimmed: boolean): void {
+    const review = this.trimReview;
+    if (!review) return;
+    this.trimReview = null;
+    this.trimModal.classList.remove('is-visible');
+    this.recordingStatus.textContent = 'Đang chuyển đổi âm thanh...';
+    review.resolve(trimmed ? review.plan : null);
+  }
+
+  private async requestTranscription(
+    note: Note,
+    audio: Blob,
+    stream: StreamController,
+    onSegments: (segments: TranscriptSegment[]) => void,
+  ): Promise<TranscriptResult> {
+    // A cancel during the retry backoff must not upload the chunk again.
+    stream.throwIfCancelled();
+    const glossary = this.getGlossary(note);
+    const response = await this.provider.transcribe({
+      audio,
+      mimeType: audio.type || 'audio/webm',
+      prompt: buildTranscriptPrompt(
+        this.transcriptionLanguage,
+        describeGlossaryForTranscription(glossary.terms),
+      ),
+      languageCode: this.transcriptionLanguage,
+      vocabulary: glossary.terms,
+      timed: true,
+    });
+
+    // The JSON arrives in pieces; every complete segment received so far is
+    // salvaged from the partial array and shown as a preview.
+    let previewCount = 0;
+    const responseText = await stream.readText(response, (partial) => {
+      const segments = parseTranscriptSegments(partial);
+      if (segments.length > previewCount) {
+        previewCount = segments.length;
+        onSegments(segments);
+      }
+    });
+    // Fall back to the unparsed response if no segments can be recovered,
+    // so a malformed reply still leaves the user with some transcript.
+    const segments = parseTranscriptSegments(responseText);
+    return applyReplaceRulesToTranscript(
+      {
+        text: segments.length > 0 ? segmentsToText(segments) : responseText,
+        segments,
+      },
+      glossary.rules,
+    );
+  }
+
+  private async getTranscription(): Promise<void> {
+    const job = this.transcriptionJob;
+    const note = this.currentNote;
+    if (!job || !note || note.id !== job.noteId) return;
+    const stream = this.beginStream();
+    this.setProcessingState(note, 'transcribing');
+    this.showTab('raw');
+
+    const total = job.chunks.length;
+    try {
+      // Chunks run in sequence; speaker labels are assigned per request, so
+      // they are only guaranteed to be consistent within a chunk.
+      while (job.results.length < total) {
+        const index = job.results.length;
+        const chunk = job.chunks[index];
         this.recordingStatus.textContent =
-          'Ghi âm thất bại hoặc không có nội dung.';
-        this.polishedNote.innerHTML =
-          '<p><em>Không thể ghi âm. Vui lòng thử lại.</em></p>';
-        this.rawTranscription.textContent =
-          this.rawTranscription.getAttribute('placeholder');
-        this.rawTranscription.classList.add('placeholder-active');
+          total > 1
+            ? `Đang lấy bản ghi âm (phần ${index + 1}/${total})...`
+            : 'Đang lấy bản ghi âm...';
+
+        const result = await withRetry(
+          () =>
+            this.requestTranscription(note, chunk.blob, stream, (segments) => {
+              const preview = restoreOriginalTimes(
+                mergeTranscripts([
+                  ...job.results,
+                  offsetTranscript(
+                    {text: segmentsToText(segments), segments},
+                    chunk.offset,
+                  ),
+                ]),
+                note.keptRegions,
+              );
+              this.renderRawTranscription(preview.text, preview.segments);
+            }),
+          TRANSCRIPTION_ATTEMPTS,
+          RETRY_BASE_DELAY_MS,
+        );
+        job.results.push(offsetTranscript(result, chunk.offset));
       }
     } catch (error) {
+      if (error instanceof StreamCancelledError) {
+        // The note itself was never touched, so re-rendering it drops the
+        // partial preview. Finished chunks are kept for "Thử lại".
+        if (this.currentNote === note) {
+          this.renderCurrentRawTranscription();
+          this.recordingStatus.textContent =
+            'Đã hủy phiên âm. Nhấn "Thử lại" để tiếp tục.';
+        }
+        this.markProcessingInterrupted(note, 'transcribing', stream);
+        return;
+      }
       console.error('Error getting transcription:', error);
       this.recordingStatus.textContent =
-        'Lỗi lấy bản ghi âm. Vui lòng thử lại.';
+        total > 1
+          ? `Lỗi lấy bản ghi âm phần ${job.results.length + 1}/${total}. Bản ghi đã vào hàng chờ; nhấn "Thử lại" để tiếp tục từ phần này.`
+          : 'Lỗi lấy bản ghi âm. Bản ghi đã vào hàng chờ và sẽ được thử lại.';
       this.polishedNote.innerHTML = `<p><em>Lỗi trong quá trình ghi âm: ${error instanceof Error ? error.message : String(error)}</em></p>`;
-      this.rawTranscription.textContent =
-        this.rawTranscription.getAttribute('placeholder');
-      this.rawTranscription.classList.add('placeholder-active');
+      this.renderRawTranscription('');
+      this.markProcessingFailed(note, 'transcribing', error);
+      return;
+    } finally {
+      this.endStream(stream);
+    }
+
+    this.transcriptionJob = null;
+    const {text: transcriptionText, segments} = restoreOriginalTimes(
+      mergeTranscripts(job.results),
+      note.keptRegions,
+    );
+
+    if (transcriptionText) {
+      this.renderRawTranscription(transcriptionText, segments);
+
+      note.rawTranscription = transcriptionText;
+      note.segments = segments.length > 0 ? segments : undefined;
+      // Labels from a new transcription need not match the old ones.
+      note.speakerNames = undefined;
+      this.setProcessingState(note, 'polishing');
+      this.recordingStatus.textContent =
+        'Ghi âm hoàn tất. Đang trau chuốt ghi chú...';
+      this.getPolishedNote().catch((err) => {
+        console.error('Error polishing note:', err);
+        this.recordingStatus.textContent =
+          'Lỗi trau chuốt ghi chú sau khi ghi âm.';
+      });
+    } else {
+      this.recordingStatus.textContent =
+        'Ghi âm thất bại hoặc không có nội dung.';
+      this.polishedNote.innerHTML =
+        '<p><em>Không thể ghi âm. Vui lòng thử lại.</em></p>';
+      this.renderRawTranscription('');
+      // An empty result will not improve by itself, so it is not retried.
+      this.markProcessingFailed(
+        note,
+        'transcribing',
+        new Error('Bản ghi không có nội dung.'),
+        false,
+      );
     }
   }
 
-  private async getPolishedNote(): Promise<void> {
+  private async getPolishedNote(
+    options: {templateId?: string; extraInstructions?: string} = {},
+  ): Promise<void> {
+    const hadPolishedNote = !!(
+      this.currentNote?.polishedNote || this.currentNote?.polishedHtml
+    );
+    // Only the polish step of the recording pipeline updates the note's
+    // processing state; re-polishing a finished note leaves it alone.
+    const pipelineNote =
+      this.currentNote?.processingState === 'polishing'
+        ? this.currentNote
+        : null;
+    let stream: StreamController | null = null;
     try {
-      if (
-        !this.rawTranscription.textContent ||
-        this.rawTranscription.textContent.trim() === '' ||
-        this.rawTranscription.classList.contains('placeholder-active')
-      ) {
+      const rawText = this.currentNote?.rawTranscription.trim() || '';
+      if (!rawText) {
         this.recordingStatus.textContent = 'Không có bản ghi âm để trau chuốt';
         this.polishedNote.innerHTML =
           '<p><em>Không có bản ghi âm để trau chuốt.</em></p>';
@@ -622,22 +2629,23 @@ class VoiceNotesApp {
       }
 
       this.recordingStatus.textContent = 'Đang trau chuốt ghi chú...';
+      stream = this.beginStream();
 
-      const prompt = `Take this raw transcription and create a polished, well-formatted note.
-                    Remove filler words (um, uh, like), repetitions, and false starts.
-                    Format any lists or bullet points properly. Use markdown formatting for headings, lists, etc.
-                    Maintain all the original content and meaning.
-
-                    Raw transcription:
-                    ${this.rawTranscription.textContent}`;
-      const contents = [{text: prompt}];
-
-      const response = await this.genAI.models.generateContent({
-        model: MODEL_NAME,
-        contents: contents,
+      const note = this.currentNote;
+      const request = this.buildPolishRequest(note, rawText, options);
+      const response = await this.provider.generate({
+        messages: promptMessages(request.prompt),
+      });
+      // Show the Markdown as it arrives. The note is only updated once the
+      // whole response is in, so cancelling leaves it as it was.
+      if (this.activeVariant) this.showVariant(null);
+      this.showTab('note');
+      this.polishedNote.contentEditable = 'false';
+      this.polishedNote.classList.add('is-streaming');
+      const polishedText = await stream.readText(response, (partial) => {
+        this.polishedNote.innerHTML = marked.parse(partial);
+        this.polishedNote.classList.remove('placeholder-active');
       });
-      // FIX: The .text property on a GenerateContentResponse is a string, not a promise.
-      const polishedText = response.text;
 
       if (polishedText) {
         const htmlContent = marked.parse(polishedText);
@@ -651,45 +2659,11 @@ class VoiceNotesApp {
           this.polishedNote.classList.add('placeholder-active');
         }
 
-        let noteTitleSet = false;
-        const lines = polishedText.split('\n').map((l) => l.trim());
-
-        for (const line of lines) {
-          if (line.startsWith('#')) {
-            const title = line.replace(/^#+\s+/, '').trim();
-            if (this.editorTitle && title) {
-              this.editorTitle.textContent = title;
-              this.editorTitle.classList.remove('placeholder-active');
-              noteTitleSet = true;
-              break;
-            }
-          }
-        }
-
-        if (!noteTitleSet && this.editorTitle) {
-          for (const line of lines) {
-            if (line.length > 0) {
-              let potentialTitle = line.replace(
-                /^[\*_\`#\->\s\[\]\(.\d)]+/,
-                '',
-              );
-              potentialTitle = potentialTitle.replace(/[\*_\`#]+$/, '');
-              potentialTitle = potentialTitle.trim();
-
-              if (potentialTitle.length > 3) {
-                const maxLength = 60;
-                this.editorTitle.textContent =
-                  potentialTitle.substring(0, maxLength) +
-                  (potentialTitle.length > maxLength ? '...' : '');
-                this.editorTitle.classList.remove('placeholder-active');
-                noteTitleSet = true;
-                break;
-              }
-            }
-          }
-        }
-
-        if (!noteTitleSet && this.editorTitle) {
+        const derivedTitle = deriveNoteTitle(polishedText);
+        if (derivedTitle && this.editorTitle) {
+          this.editorTitle.textContent = derivedTitle;
+          this.editorTitle.classList.remove('placeholder-active');
+        } else if (this.editorTitle) {
           const currentEditorText = this.editorTitle.textContent?.trim();
           const placeholderText =
             this.editorTitle.getAttribute('placeholder') || 'Ghi chú không tiêu đề';
@@ -704,9 +2678,36 @@ class VoiceNotesApp {
           }
         }
 
-        if (this.currentNote) this.currentNote.polishedNote = polishedText;
+        if (this.currentNote) {
+          this.applyPolishResult(
+            this.currentNote,
+            polishedText,
+            request,
+            options.extraInstructions,
+          );
+          this.renderTemplateSelect();
+          this.currentNote.title = this.getEditableText(this.editorTitle);
+          if (pipelineNote === this.currentNote) {
+            this.setProcessingState(this.currentNote, 'done');
+          } else {
+            this.saveCurrentNote();
+          }
+          this.extractNoteFields(this.currentNote);
+        }
         this.recordingStatus.textContent =
           'Ghi chú đã được trau chuốt. Sẵn sàng cho bản ghi tiếp theo.';
+      } else if (hadPolishedNote && this.currentNote) {
+        // A failed re-polish keeps the existing polished note.
+        this.recordingStatus.textContent =
+          'Trau chuốt lại không có nội dung. Ghi chú trước đó được giữ nguyên.';
+        this.renderNote(this.currentNote);
+        if (pipelineNote) {
+          this.markProcessingFailed(
+            pipelineNote,
+            'polishing',
+            new Error('Empty polish response'),
+          );
+        }
       } else {
         this.recordingStatus.textContent =
           'Trau chuốt thất bại hoặc không có nội dung.';
@@ -721,11 +2722,41 @@ class VoiceNotesApp {
           this.polishedNote.innerHTML = placeholder;
           this.polishedNote.classList.add('placeholder-active');
         }
+        if (pipelineNote) {
+          this.markProcessingFailed(
+            pipelineNote,
+            'polishing',
+            new Error('Empty polish response'),
+          );
+        }
       }
     } catch (error) {
+      if (error instanceof StreamCancelledError) {
+        // Drop the partial output unless a newer stream has taken over.
+        if (this.currentNote && !this.activeStream) {
+          this.renderNote(this.currentNote);
+        }
+        if (pipelineNote && stream) {
+          this.markProcessingInterrupted(pipelineNote, 'polishing', stream);
+        }
+        this.recordingStatus.textContent = hadPolishedNote
+          ? 'Đã hủy trau chuốt. Ghi chú trước đó được giữ nguyên.'
+          : 'Đã hủy trau chuốt. Bản ghi âm thô vẫn có sẵn.';
+        return;
+      }
       console.error('Error polishing note:', error);
-      this.recordingStatus.textContent =
-        'Lỗi trau chuốt ghi chú. Vui lòng thử lại.';
+      if (pipelineNote) {
+        this.markProcessingFailed(pipelineNote, 'polishing', error);
+      }
+      if (hadPolishedNote && this.currentNote) {
+        this.recordingStatus.textContent =
+          'Lỗi trau chuốt lại. Ghi chú trước đó được giữ nguyên.';
+        this.renderNote(this.currentNote);
+        return;
+      }
+      this.recordingStatus.textContent = pipelineNote
+        ? 'Lỗi trau chuốt ghi chú. Bản ghi đã vào hàng chờ và sẽ được thử lại.'
+        : 'Lỗi trau chuốt ghi chú. Vui lòng thử lại.';
       this.polishedNote.innerHTML = `<p><em>Lỗi trong quá trình trau chuốt: ${error instanceof Error ? error.message : String(error)}</em></p>`;
       if (
         this.polishedNote.textContent?.trim() === '' ||
@@ -735,43 +2766,2480 @@ class VoiceNotesApp {
         this.polishedNote.innerHTML = placeholder;
         this.polishedNote.classList.add('placeholder-active');
       }
+    } finally {
+      if (stream) {
+        this.endStream(stream);
+        this.polishedNote.classList.remove('is-streaming');
+        if (!this.activeVariant) this.polishedNote.contentEditable = 'true';
+      }
     }
   }
 
-  private createNewNote(): void {
-    this.currentNote = {
-      id: `note_${Date.now()}`,
-      rawTranscription: '',
-      polishedNote: '',
-      timestamp: Date.now(),
-    };
-
-    const rawPlaceholder =
-      this.rawTranscription.getAttribute('placeholder') || '';
-    this.rawTranscription.textContent = rawPlaceholder;
-    this.rawTranscription.classList.add('placeholder-active');
+  private buildPolishRequest(
+    note: Note | null,
+    rawText: string,
+    options: {templateId?: string; extraInstructions?: string} = {},
+  ): PolishRequest {
+    const templateId =
+      options.templateId ||
+      note?.templateId ||
+      this.selectedTemplateId ||
+      DEFAULT_TEMPLATE_ID;
+    const instructions = this.getTemplateInstructions(templateId, note);
+    const prompt = buildPolishPrompt(instructions, rawText, {
+      extraInstructions: options.extraInstructions,
+      languageInstruction: describeOutputLanguage(this.outputLanguage),
+      glossaryInstruction: describeGlossaryForPolish(
+        this.getGlossary(note).terms,
+      ),
+    });
+    return {templateId, instructions, prompt};
+  }
 
-    const polishedPlaceholder =
-      this.polishedNote.getAttribute('placeholder') || '';
-    this.polishedNote.innerHTML = polishedPlaceholder;
-    this.polishedNote.classList.add('placeholder-active');
+  private applyPolishResult(
+    note: Note,
+    polishedText: string,
+    request: PolishRequest,
+    extraInstructions?: string,
+  ): void {
+    this.archiveCurrentPolish(note);
+    note.polishedNote = polishedText;
+    note.polishedHtml = undefined;
+    note.templateId = request.templateId;
+    note.templatePrompt = request.instructions;
+    note.extraInstructions = extraInstructions?.trim() || undefined;
+    note.polishedAt = Date.now();
+  }
 
-    if (this.editorTitle) {
-      const placeholder =
-        this.editorTitle.getAttribute('placeholder') || 'Ghi chú không tiêu đề';
-      this.editorTitle.textContent = placeholder;
-      this.editorTitle.classList.add('placeholder-active');
+  // Records a pipeline step on the note and saves it.
+  private setProcessingState(note: Note, state: NoteProcessingState): void {
+    note.processingState = state;
+    if (state === 'transcribing' || state === 'polishing') {
+      note.resumeStep = state;
     }
-    this.recordingStatus.textContent = 'Sẵn sàng ghi âm';
+    if (state === 'done') {
+      note.resumeStep = undefined;
+      note.retryCount = undefined;
+    }
+    note.processingError = undefined;
+    note.nextRetryAt = undefined;
+    this.persistNote(note);
+  }
 
-    if (this.isRecording) {
-      this.mediaRecorder?.stop();
-      this.isRecording = false;
-      this.recordButton.classList.remove('recording');
+  private markProcessingFailed(
+    note: Note,
+    step: 'transcribing' | 'polishing',
+    error: unknown,
+    autoRetry = true,
+  ): void {
+    note.processingState = 'failed';
+    note.resumeStep = step;
+    note.processingError =
+      error instanceof Error ? error.message : String(error);
+    if (!navigator.onLine) {
+      // Failures while offline do not use up a retry; the queue picks the
+      // note up again as soon as the connection is back.
+      note.nextRetryAt = Date.now();
     } else {
-      this.stopLiveDisplay();
+      note.retryCount = (note.retryCount || 0) + 1;
+      note.nextRetryAt =
+        autoRetry && note.retryCount <= QUEUE_MAX_AUTO_RETRIES
+          ? Date.now() + getNextRetryDelay(note.retryCount)
+          : undefined;
+    }
+    this.persistNote(note);
+  }
+
+  private markProcessingInterrupted(
+    note: Note,
+    step: 'transcribing' | 'polishing',
+    stream: StreamController,
+  ): void {
+    // A newer polish of the same note takes over its processing state.
+    if (this.activeStream && step === 'polishing') return;
+    note.processingState = 'recorded';
+    note.resumeStep = step;
+    note.processingError = undefined;
+    // Cancelled on purpose: wait for a manual retry. Dropped because the
+    // user moved to another note: carry on in the background.
+    note.nextRetryAt =
+      stream.cancelledByUser || this.activeStream ? undefined : Date.now();
+    this.persistNote(note);
+  }
+
+  private persistNote(note: Note): void {
+    if (note === this.currentNote) {
+      this.saveCurrentNote();
+    } else if (this.notes.includes(note)) {
+      this.searchIndex.update(note);
+      this.renderNoteList();
+      saveNote({...note}).catch((e) => console.error('Error saving note:', e));
+    }
+    this.renderPendingQueue();
+    this.updateRetryButton();
+    this.scheduleQueueRun();
+  }
+
+  // Notes left mid-step by a reload carry on from where they stopped.
+  private resumeInterruptedNotes(): void {
+    for (const note of this.notes) {
+      const state = note.processingState;
+      if (state !== 'transcribing' && state !== 'polishing') continue;
+      note.processingState = 'recorded';
+      note.resumeStep = state;
+      note.nextRetryAt = Date.now();
+      saveNote({...note}).catch((e) =>
+        console.error('Error saving note state:', e),
+      );
     }
   }
+
+  private canProcessFromQueue(note: Note): boolean {
+    // A note being recorded into gets a fresh recording on stop anyway.
+    return !(note === this.currentNote && this.isRecording);
+  }
+
+  private scheduleQueueRun(): void {
+    if (this.queueTimeoutId) {
+      clearTimeout(this.queueTimeoutId);
+      this.queueTimeoutId = null;
+    }
+    if (this.isQueueRunning || !navigator.onLine) return;
+
+    const retryTimes = this.notes
+      .filter(
+        (n) =>
+          (n.processingState === 'recorded' ||
+            n.processingState === 'failed') &&
+          n.nextRetryAt !== undefined &&
+          this.canProcessFromQueue(n),
+      )
+      .map((n) => n.nextRetryAt as number);
+    if (retryTimes.length === 0) return;
+    const delay = Math.max(0, Math.min(...retryTimes) - Date.now());
+    this.queueTimeoutId = window.setTimeout(() => {
+      this.queueTimeoutId = null;
+      this.runPendingQueue();
+    }, delay);
+  }
+
+  // Works through due notes one at a time while the browser is online.
+  private async runPendingQueue(): Promise<void> {
+    if (this.isQueueRunning || !navigator.onLine) return;
+    this.isQueueRunning = true;
+    const attempted = new Set<string>();
+    try {
+      while (navigator.onLine) {
+        const now = Date.now();
+        const note = this.notes.find(
+          (n) =>
+            !attempted.has(n.id) &&
+            isRetryDue(n, now) &&
+            this.canProcessFromQueue(n),
+        );
+        if (!note) break;
+        attempted.add(note.id);
+        await this.retryNote(note);
+      }
+    } finally {
+      this.isQueueRunning = false;
+      this.scheduleQueueRun();
+    }
+  }
+
+  /**
+   * Resumes a pending note from the step it stopped at. The open note goes
+   * through the normal streaming pipeline; any other note is processed in
+   * the background and only saved.
+   */
+  private async retryNote(note: Note): Promise<void> {
+    const state = note.processingState;
+    if (
+      this.backgroundNoteIds.has(note.id) ||
+      state === 'transcribing' ||
+      state === 'polishing'
+    ) {
+      return;
+    }
+    const step =
+      note.resumeStep === 'polishing' && note.rawTranscription.trim()
+        ? 'polishing'
+        : 'transcribing';
+    const isForeground = note === this.currentNote && !this.isRecording;
+
+    let audio: Blob | null = null;
+    const hasJob = this.transcriptionJob?.noteId === note.id;
+    if (step === 'transcribing' && !(isForeground && hasJob)) {
+      try {
+        audio = await getNoteAudio(note.id);
+      } catch (error) {
+        console.error('Error loading audio for retry:', error);
+      }
+      if (!audio) {
+        this.markProcessingFailed(
+          note,
+          'transcribing',
+          new Error('Không tìm thấy âm thanh gốc của bản ghi.'),
+          false,
+        );
+        return;
+      }
+    }
+
+    if (!isForeground) {
+      await this.processNoteInBackground(note, step, audio);
+      return;
+    }
+    if (step === 'polishing') {
+      this.setProcessingState(note, 'polishing');
+      await this.getPolishedNote();
+      return;
+    }
+    if (audio) {
+      this.recordingStatus.textContent = 'Đang chuyển đổi âm thanh...';
+      const chunks = await this.prepareTranscriptionChunks(note, audio, false);
+      this.transcriptionJob = {noteId: note.id, chunks, results: []};
+    }
+    await this.getTranscription();
+  }
+
+  private async processNoteInBackground(
+    note: Note,
+    step: 'transcribing' | 'polishing',
+    audio: Blob | null,
+  ): Promise<void> {
+    this.backgroundNoteIds.add(note.id);
+    try {
+      if (step === 'transcribing' && audio) {
+        this.setProcessingState(note, 'transcribing');
+        const chunks = await this.prepareTranscriptionChunks(
+          note,
+          audio,
+          false,
+        );
+        const results: TranscriptResult[] = [];
+        for (const chunk of chunks) {
+          const result = await withRetry(
+            () =>
+              this.requestTranscription(
+                note,
+                chunk.blob,
+                new StreamController(),
+                () => {},
+              ),
+            TRANSCRIPTION_ATTEMPTS,
+            RETRY_BASE_DELAY_MS,
+          );
+          results.push(offsetTranscript(result, chunk.offset));
+        }
+        const {text, segments} = restoreOriginalTimes(
+          mergeTranscripts(results),
+          note.keptRegions,
+        );
+        if (!text) {
+          this.markProcessingFailed(
+            note,
+            'transcribing',
+            new Error('Bản ghi không có nội dung.'),
+            false,
+          );
+          return;
+        }
+        note.rawTranscription = text;
+        note.segments = segments.length > 0 ? segments : undefined;
+        note.speakerNames = undefined;
+      }
+
+      this.setProcessingState(note, 'polishing');
+      const request = this.buildPolishRequest(
+        note,
+        note.rawTranscription.trim(),
+      );
+      const response = await this.provider.generate({
+        messages: promptMessages(request.prompt),
+      });
+      const polishedText = (await readAllText(response)).trim();
+      if (!polishedText) throw new Error('Trau chuốt không có nội dung.');
+      this.applyPolishResult(note, polishedText, request);
+      // Keep a title the user gave the note while it was waiting.
+      if (!note.title) note.title = deriveNoteTitle(polishedText) || '';
+      this.setProcessingState(note, 'done');
+      if (note === this.currentNote) this.renderNote(note);
+      this.extractNoteFields(note);
+      this.recordingStatus.textContent = `Đã xử lý xong "${note.title || 'Ghi chú không tiêu đề'}" từ hàng chờ.`;
+    } catch (error) {
+      console.error('Error processing queued note:', error);
+      this.markProcessingFailed(
+        note,
+        note.processingState === 'polishing' ? 'polishing' : 'transcribing',
+        error,
+      );
+    } finally {
+      this.backgroundNoteIds.delete(note.id);
+      this.updateRetryButton();
+    }
+  }
+
+  private renderPendingQueue(): void {
+    const pending = this.notes.filter(isPendingNote);
+    this.pendingQueue.classList.toggle('hidden', pending.length === 0);
+    this.pendingQueueCount.textContent = String(pending.length);
+    this.pendingQueueList.innerHTML = '';
+
+    for (const note of pending) {
+      const isBusy =
+        note.processingState === 'transcribing' ||
+        note.processingState === 'polishing';
+
+      const item = document.createElement('li');
+      item.className = 'note-list-item';
+      if (note.id === this.currentNote?.id) item.classList.add('active');
+
+      const info = document.createElement('button');
+      info.className = 'note-list-open';
+      info.title = note.processingError || 'Mở ghi chú';
+      const title = document.createElement('span');
+      title.className = 'note-list-title';
+      title.textContent = note.title || 'Ghi chú không tiêu đề';
+      const state = document.createElement('span');
+      state.className = 'note-list-date pending-state';
+      state.classList.toggle('is-failed', note.processingState === 'failed');
+      state.textContent = describePendingNote(note, navigator.onLine);
+      info.append(title, state);
+      info.addEventListener('click', () => this.openNote(note.id));
+
+      const retryButton = document.createElement('button');
+      retryButton.className = 'note-list-action';
+      retryButton.title = 'Thử lại ngay';
+      retryButton.innerHTML = '<i class="fas fa-rotate-right"></i>';
+      retryButton.disabled = isBusy;
+      retryButton.addEventListener('click', () => this.retryNote(note));
+
+      const discardButton = document.createElement('button');
+      discardButton.className = 'note-list-action';
+      discardButton.title = 'Bỏ khỏi hàng chờ';
+      discardButton.innerHTML = '<i class="fas fa-xmark"></i>';
+      discardButton.disabled = isBusy;
+      discardButton.addEventListener('click', () =>
+        this.discardPendingNote(note),
+      );
+
+      item.append(info, retryButton, discardButton);
+      this.pendingQueueList.appendChild(item);
+    }
+  }
+
+  private async discardPendingNote(note: Note): Promise<void> {
+    // A recording that never got transcribed has nothing worth keeping.
+    if (!note.rawTranscription.trim() && !note.polishedNote) {
+      await this.removeNote(note.id);
+      this.renderPendingQueue();
+      return;
+    }
+    const title = note.title || 'Ghi chú không tiêu đề';
+    if (
+      !window.confirm(
+        `Bỏ "${title}" khỏi hàng chờ? Ghi chú và bản thô vẫn được giữ lại.`,
+      )
+    ) {
+      return;
+    }
+    if (this.transcriptionJob?.noteId === note.id) this.transcriptionJob = null;
+    this.setProcessingState(note, 'done');
+  }
+
+  // Starts a streamed request, cancelling any other stream still running.
+  private beginStream(): StreamController {
+    this.activeStream?.cancel();
+    const stream = new StreamController();
+    this.activeStream = stream;
+    this.cancelStreamButton.classList.remove('hidden');
+    this.updateWaveformControls();
+    return stream;
+  }
+
+  private endStream(stream: StreamController): void {
+    if (this.activeStream !== stream) return;
+    this.activeStream = null;
+    this.cancelStreamButton.classList.add('hidden');
+    this.updateRetryButton();
+    this.updateWaveformControls();
+  }
+
+  private cancelStream(byUser = false): void {
+    if (!this.activeStream) return;
+    this.activeStream.cancel(byUser);
+    this.endStream(this.activeStream);
+  }
+
+  private createNewNote(): void {
+    this.cancelStream();
+    if (this.autosaveTimeoutId) this.saveCurrentNote();
+
+    const now = Date.now();
+    this.currentNote = {
+      id: `note_${now}`,
+      title: '',
+      rawTranscription: '',
+      polishedNote: '',
+      timestamp: now,
+      updatedAt: now,
+    };
+    this.renderNote(this.currentNote);
+    this.renderNoteList();
+    this.setPlayerAudio(null);
+    this.updateRetryButton();
+    this.recordingStatus.textContent = 'Sẵn sàng ghi âm';
+
+    if (this.isRecording) {
+      this.mediaRecorder?.stop();
+      this.isRecording = false;
+      this.recordButton.classList.remove('recording');
+    } else {
+      this.stopLiveDisplay();
+    }
+  }
+
+  private renderNote(note: Note): void {
+    this.renderTemplateSelect();
+    this.activeVariant = null;
+    this.polishedNote.contentEditable = 'true';
+    this.polishedNote.classList.remove('is-translation');
+    this.renderVariantSelect();
+
+    if (this.editorTitle) {
+      if (note.title) {
+        this.editorTitle.textContent = note.title;
+        this.editorTitle.classList.remove('placeholder-active');
+      } else {
+        this.editorTitle.textContent =
+          this.editorTitle.getAttribute('placeholder') ||
+          'Ghi chú không tiêu đề';
+        this.editorTitle.classList.add('placeholder-active');
+      }
+    }
+
+    this.renderRawTranscription(
+      note.rawTranscription,
+      note.segments,
+      note.speakerNames,
+    );
+    this.noteFolderInput.value = note.folder || '';
+    this.renderChat();
+    this.renderInsights();
+
+    if (note.polishedHtml) {
+      this.polishedNote.innerHTML = note.polishedHtml;
+      this.polishedNote.classList.remove('placeholder-active');
+    } else if (note.polishedNote) {
+      this.polishedNote.innerHTML = marked.parse(note.polishedNote);
+      this.polishedNote.classList.remove('placeholder-active');
+    } else {
+      this.polishedNote.innerHTML =
+        this.polishedNote.getAttribute('placeholder') || '';
+      this.polishedNote.classList.add('placeholder-active');
+    }
+  }
+
+  private renderRawTranscription(
+    text: string,
+    segments?: TranscriptSegment[],
+    speakerNames?: Record<string, string>,
+  ): void {
+    this.rawTranscription.contentEditable = 'true';
+    this.rawTranscription.classList.remove('is-provisional');
+    if (segments && segments.length > 0) {
+      this.rawTranscription.innerHTML = '';
+      const speakerOrder: string[] = [];
+      let previousSpeaker: string | undefined;
+
+      for (const segment of segments) {
+        const row = document.createElement('div');
+        row.className = 'transcript-segment';
+        row.dataset.start = String(segment.start);
+        row.dataset.end = String(segment.end);
+
+        if (segment.speaker) {
+          row.dataset.speaker = segment.speaker;
+          if (!speakerOrder.includes(segment.speaker)) {
+            speakerOrder.push(segment.speaker);
+          }
+          const colorIndex = speakerOrder.indexOf(segment.speaker) % 6;
+          row.classList.add(`speaker-color-${colorIndex}`);
+          if (segment.speaker !== previousSpeaker) {
+            row.classList.add('speaker-turn');
+          }
+        }
+        previousSpeaker = segment.speaker;
+
+        const time = document.createElement('span');
+        time.className = 'segment-time';
+        time.contentEditable = 'false';
+        time.title = 'Nghe từ đoạn này';
+        time.textContent = formatTimestamp(segment.start);
+
+        const body = document.createElement('div');
+        body.className = 'segment-body';
+        if (row.classList.contains('speaker-turn') && segment.speaker) {
+          const speaker = document.createElement('span');
+          speaker.className = 'segment-speaker';
+          speaker.contentEditable = 'false';
+          speaker.title = 'Đổi tên người nói';
+          speaker.textContent = getSpeakerName(segment.speaker, speakerNames);
+          body.appendChild(speaker);
+        }
+
+        const content = document.createElement('span');
+        content.className = 'segment-text';
+        content.textContent = segment.text;
+        body.appendChild(content);
+
+        row.append(time, body);
+        this.rawTranscription.appendChild(row);
+      }
+      this.rawTranscription.classList.remove('placeholder-active');
+    } else if (text.trim() !== '') {
+      this.rawTranscription.textContent = text;
+      this.rawTranscription.classList.remove('placeholder-active');
+    } else {
+      this.rawTranscription.textContent =
+        this.rawTranscription.getAttribute('placeholder') || '';
+      this.rawTranscription.classList.add('placeholder-active');
+    }
+  }
+
+  private renderCurrentRawTranscription(): void {
+    const note = this.currentNote;
+    this.renderRawTranscription(
+      note?.rawTranscription || '',
+      note?.segments,
+      note?.speakerNames,
+    );
+  }
+
+  // Reads segments back out of the Raw tab after the user edits it. Rows the
+  // user deleted are dropped; their timing is kept in the row's data-*.
+  private readSegmentsFromEditor(): TranscriptSegment[] {
+    const rows = this.rawTranscription.querySelectorAll<HTMLElement>(
+      '.transcript-segment',
+    );
+    const segments: TranscriptSegment[] = [];
+    rows.forEach((row) => {
+      const text =
+        row.querySelector('.segment-text')?.textContent?.trim() || '';
+      if (!text) return;
+      segments.push({
+        start: Number(row.dataset.start) || 0,
+        end: Number(row.dataset.end) || 0,
+        text,
+        ...(row.dataset.speaker ? {speaker: row.dataset.speaker} : {}),
+      });
+    });
+    return segments;
+  }
+
+  private renameSpeaker(label: string): void {
+    const note = this.currentNote;
+    if (!note?.segments) return;
+
+    const previousName = getSpeakerName(label, note.speakerNames);
+    const input = window.prompt(
+      `Đổi tên "${previousName}" thành:`,
+      previousName,
+    );
+    const newName = input?.trim();
+    if (!newName || newName === previousName) return;
+
+    note.speakerNames = {...note.speakerNames, [label]: newName};
+    note.rawTranscription = segmentsToText(note.segments, note.speakerNames);
+
+    // The polished note was written with the old name, so carry the rename
+    // over there as well.
+    const pattern = new RegExp(
+      `(^|[^\\p{L}\\p{N}])${escapeRegExp(previousName)}(?=$|[^\\p{L}\\p{N}])`,
+      'gu',
+    );
+    note.polishedNote = note.polishedNote.replace(pattern, `$1${newName}`);
+    if (note.polishedHtml) {
+      note.polishedHtml = replaceInHtmlText(
+        note.polishedHtml,
+        pattern,
+        `$1${newName}`,
+      );
+    }
+
+    this.renderNote(note);
+    this.saveCurrentNote();
+  }
+
+  private seekToSegment(row: HTMLElement): void {
+    if (!this.audioObjectUrl) {
+      this.recordingStatus.textContent =
+        'Ghi chú này không có âm thanh gốc để nghe lại.';
+      return;
+    }
+    this.noteAudio.currentTime = Number(row.dataset.start) || 0;
+    this.noteAudio.play().catch((e) => console.warn('Playback failed', e));
+  }
+
+  private highlightPlayingSegment(): void {
+    const time = this.noteAudio.currentTime;
+    const rows = this.rawTranscription.querySelectorAll<HTMLElement>(
+      '.transcript-segment',
+    );
+    rows.forEach((row, i) => {
+      const start = Number(row.dataset.start);
+      const next = rows[i + 1];
+      const end = next
+        ? Number(next.dataset.start)
+        : Math.max(Number(row.dataset.end), start);
+      const isPlaying =
+        !this.noteAudio.paused && time >= start && (time < end || !next);
+      row.classList.toggle('is-playing', isPlaying);
+    });
+  }
+
+  private getEditableText(el: HTMLElement): string {
+    if (el.classList.contains('placeholder-active')) return '';
+    return el.textContent?.trim() || '';
+  }
+
+  private async loadNoteLibrary(): Promise<void> {
+    try {
+      this.notes = await getAllNotes();
+      this.searchIndex.build(this.notes);
+      this.renderFolderOptions();
+      this.resumeInterruptedNotes();
+    } catch (error) {
+      console.error('Error loading notes:', error);
+      this.recordingStatus.textContent =
+        'Không thể tải thư viện ghi chú. Ghi chú mới sẽ không được lưu.';
+      return;
+    }
+
+    // Reopen the most recently edited note so a reload picks up where the
+    // user left off, unless they already started on the blank note.
+    const current = this.currentNote;
+    const currentIsBlank =
+      !current ||
+      (!current.title && !current.rawTranscription && !current.polishedNote);
+    if (this.notes.length > 0 && currentIsBlank && !this.isRecording) {
+      this.openNote(this.notes[0].id);
+    } else {
+      this.renderNoteList();
+    }
+    this.renderPendingQueue();
+    this.scheduleQueueRun();
+  }
+
+  private scheduleAutosave(): void {
+    if (this.autosaveTimeoutId) clearTimeout(this.autosaveTimeoutId);
+    this.autosaveTimeoutId = window.setTimeout(() => {
+      this.autosaveTimeoutId = null;
+      this.saveCurrentNote();
+    }, AUTOSAVE_DELAY_MS);
+  }
+
+  private async saveCurrentNote(): Promise<void> {
+    if (this.autosaveTimeoutId) {
+      clearTimeout(this.autosaveTimeoutId);
+      this.autosaveTimeoutId = null;
+    }
+    const note = this.currentNote;
+    if (!note) return;
+
+    const isStored = this.notes.some((n) => n.id === note.id);
+    const isEmpty =
+      !note.title &&
+      !note.rawTranscription &&
+      !note.polishedNote &&
+      !note.polishedHtml &&
+      !note.audioMimeType;
+    // Blank notes are only persisted once they get some content.
+    if (isEmpty && !isStored) return;
+
+    note.updatedAt = Date.now();
+    this.notes = [note, ...this.notes.filter((n) => n.id !== note.id)];
+    this.searchIndex.update(note);
+    this.renderNoteList();
+
+    try {
+      await saveNote({...note});
+    } catch (error) {
+      console.error('Error saving note:', error);
+      this.recordingStatus.textContent = 'Lỗi lưu ghi chú.';
+    }
+  }
+
+  private openNote(id: string): void {
+    if (this.isRecording) {
+      this.recordingStatus.textContent =
+        'Vui lòng dừng ghi âm trước khi mở ghi chú khác.';
+      return;
+    }
+    const note = this.notes.find((n) => n.id === id);
+    if (!note) return;
+
+    if (note !== this.currentNote) this.cancelStream();
+    if (this.autosaveTimeoutId) this.saveCurrentNote();
+    this.currentNote = note;
+    this.renderNote(note);
+    this.renderNoteList();
+    this.loadNoteAudio(note);
+    this.updateRetryButton();
+    this.sidebar.classList.remove('is-open');
+  }
+
+  private renameNote(id: string, title: string): void {
+    const note = this.notes.find((n) => n.id === id);
+    if (!note) return;
+
+    note.title = title.trim();
+    if (note === this.currentNote) {
+      this.renderNote(note);
+      this.saveCurrentNote();
+      return;
+    }
+    note.updatedAt = Date.now();
+    this.notes = [note, ...this.notes.filter((n) => n.id !== id)];
+    this.searchIndex.update(note);
+    this.renderNoteList();
+    saveNote({...note}).catch((error) => {
+      console.error('Error renaming note:', error);
+      this.recordingStatus.textContent = 'Lỗi đổi tên ghi chú.';
+    });
+  }
+
+  private async removeNote(id: string): Promise<void> {
+    const note = this.notes.find((n) => n.id === id);
+    if (!note) return;
+
+    const title = note.title || 'Ghi chú không tiêu đề';
+    if (!window.confirm(`Xóa ghi chú "${title}"? Không thể hoàn tác.`)) return;
+
+    try {
+      await deleteNote(id);
+    } catch (error) {
+      console.error('Error deleting note:', error);
+      this.recordingStatus.textContent = 'Lỗi xóa ghi chú.';
+      return;
+    }
+
+    this.notes = this.notes.filter((n) => n.id !== id);
+    this.searchIndex.remove(id);
+    this.renderInsights();
+    if (this.currentNote?.id === id) {
+      if (this.autosaveTimeoutId) {
+        clearTimeout(this.autosaveTimeoutId);
+        this.autosaveTimeoutId = null;
+      }
+      this.currentNote = null;
+      this.createNewNote();
+    } else {
+      this.renderNoteList();
+    }
+  }
+
+  private renderNoteList(): void {
+    if (!this.noteList) return;
+    this.noteList.innerHTML = '';
+    if (this.searchQuery) {
+      this.renderSearchResults();
+      return;
+    }
+
+    if (this.notes.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'note-list-empty';
+      empty.textContent = 'Chưa có ghi chú nào';
+      this.noteList.appendChild(empty);
+      return;
+    }
+
+    for (const note of this.notes) {
+      const item = document.createElement('li');
+      item.className = 'note-list-item';
+      if (note.id === this.currentNote?.id) item.classList.add('active');
+
+      const info = document.createElement('button');
+      info.className = 'note-list-open';
+      info.title = 'Mở ghi chú';
+      const title = document.createElement('span');
+      title.className = 'note-list-title';
+      title.textContent = note.title || 'Ghi chú không tiêu đề';
+      if (note.kind === 'digest') {
+        const icon = document.createElement('i');
+        icon.className = 'fas fa-layer-group note-list-kind';
+        icon.title = 'Bản tổng hợp';
+        title.prepend(icon);
+      }
+      const date = document.createElement('span');
+      date.className = 'note-list-date';
+      date.textContent = new Date(note.updatedAt).toLocaleString('vi-VN');
+      if (note.folder)
+        date.textContent = `${note.folder} · ${date.textContent}`;
+      info.append(title, date);
+      info.addEventListener('click', () => this.openNote(note.id));
+
+      const renameButton = document.createElement('button');
+      renameButton.className = 'note-list-action';
+      renameButton.title = 'Đổi tên';
+      renameButton.innerHTML = '<i class="fas fa-pen"></i>';
+      renameButton.addEventListener('click', () =>
+        this.startRenamingNote(item, note),
+      );
+
+      const deleteButton = document.createElement('button');
+      deleteButton.className = 'note-list-action';
+      deleteButton.title = 'Xóa';
+      deleteButton.innerHTML = '<i class="fas fa-trash"></i>';
+      deleteButton.addEventListener('click', () => this.removeNote(note.id));
+
+      item.append(info, renameButton, deleteButton);
+      this.noteList.appendChild(item);
+    }
+  }
+
+  private renderSearchResults(): void {
+    const results = this.searchIndex.search(this.searchQuery);
+    if (results.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'note-list-empty';
+      empty.textContent = 'Không tìm thấy ghi chú phù hợp';
+      this.noteList.appendChild(empty);
+      return;
+    }
+
+    for (const result of results) {
+      const note = this.notes.find((n) => n.id === result.noteId);
+      if (!note) continue;
+
+      const item = document.createElement('li');
+      item.className = 'note-list-item';
+      if (note.id === this.currentNote?.id) item.classList.add('active');
+
+      const open = document.createElement('button');
+      open.className = 'note-list-open';
+      open.title = 'Mở ghi chú tại đoạn khớp';
+      const title = document.createElement('span');
+      title.className = 'note-list-title';
+      title.textContent = note.title || 'Ghi chú không tiêu đề';
+      open.appendChild(title);
+
+      if (result.field !== 'title') {
+        const snippet = document.createElement('span');
+        snippet.className = 'note-list-snippet';
+        for (const part of result.snippet) {
+          if (part.highlighted) {
+            const mark = document.createElement('mark');
+            mark.textContent = part.text;
+            snippet.appendChild(mark);
+          } else {
+            snippet.appendChild(document.createTextNode(part.text));
+          }
+        }
+        open.appendChild(snippet);
+      }
+
+      const source = document.createElement('span');
+      source.className = 'note-list-date';
+      source.textContent =
+        result.field === 'raw'
+          ? 'Khớp trong bản thô'
+          : result.field === 'polished'
+            ? 'Khớp trong ghi chú'
+            : 'Khớp trong tiêu đề';
+      open.appendChild(source);
+      open.addEventListener('click', () => this.openSearchResult(result));
+
+      item.appendChild(open);
+      this.noteList.appendChild(item);
+    }
+  }
+
+  private openSearchResult(result: SearchResult): void {
+    this.openNote(result.noteId);
+    if (this.currentNote?.id !== result.noteId) return;
+    if (result.field === 'title' || !result.matchText) return;
+
+    const isRaw = result.field === 'raw';
+    this.showTab(isRaw ? 'raw' : 'note');
+
+    const container = isRaw ? this.rawTranscription : this.polishedNote;
+    const range = findTextRange(container, result.matchText);
+    if (!range) return;
+    // Selecting the passage highlights it without touching the note content.
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    range.startContainer.parentElement?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'center',
+    });
+  }
+
+  private showTab(tab: 'note' | 'raw'): void {
+    document
+      .querySelector<HTMLButtonElement>(`.tab-button[data-tab="${tab}"]`)
+      ?.click();
+  }
+
+  private toggleChatPanel(
+    show = this.chatPanel.classList.contains('hidden'),
+  ): void {
+    this.chatPanel.classList.toggle('hidden', !show);
+    this.chatButton.classList.toggle('active', show);
+    if (show) {
+      this.toggleInsightsPanel(false);
+      this.renderChat();
+      this.chatInput.focus();
+    }
+  }
+
+  private toggleInsightsPanel(
+    show = this.insightsPanel.classList.contains('hidden'),
+  ): void {
+    this.insightsPanel.classList.toggle('hidden', !show);
+    this.insightsButton.classList.toggle('active', show);
+    if (show) {
+      this.toggleChatPanel(false);
+      this.renderInsights();
+    }
+  }
+
+  private renderInsights(): void {
+    if (this.insightsPanel.classList.contains('hidden')) return;
+    const showAll = this.insightsScope === 'all';
+    for (const button of this.insightsScopeButtons) {
+      button.classList.toggle(
+        'active',
+        button.dataset.insightsScope === this.insightsScope,
+      );
+    }
+    this.insightsNoteView.classList.toggle('hidden', showAll);
+    this.insightsTodoView.classList.toggle('hidden', !showAll);
+    this.extractButton.classList.toggle('hidden', showAll);
+    if (showAll) {
+      this.renderTodoList();
+    } else {
+      this.renderNoteInsights();
+    }
+  }
+
+  private renderNoteInsights(): void {
+    const note = this.currentNote;
+    const isExtracting = !!note && this.extractingNoteIds.has(note.id);
+    this.extractButton.disabled =
+      !note || isExtracting || !note.rawTranscription.trim();
+    this.insightsNoteView.innerHTML = '';
+
+    if (!note || note.extractedAt === undefined) {
+      const empty = document.createElement('p');
+      empty.className = 'chat-empty';
+      empty.textContent = isExtracting
+        ? 'Đang trích xuất việc cần làm, quyết định và thông tin chính...'
+        : 'Chưa có thông tin trích xuất. Việc cần làm, quyết định, người liên quan, mốc thời gian và thẻ được trích xuất sau khi ghi chú được trau chuốt, hoặc nhấn nút làm mới để trích xuất ngay.';
+      this.insightsNoteView.appendChild(empty);
+      return;
+    }
+
+    const addSection = (title: string, items: HTMLElement[]) => {
+      const heading = document.createElement('h3');
+      heading.className = 'insights-heading';
+      heading.textContent = title;
+      const list = document.createElement('ul');
+      list.className = 'insights-list';
+      if (items.length === 0) {
+        const none = document.createElement('li');
+        none.className = 'insights-none';
+        none.textContent = 'Không có';
+        items = [none];
+      }
+      list.append(...items);
+      this.insightsNoteView.append(heading, list);
+    };
+    const textItem = (text: string) => {
+      const item = document.createElement('li');
+      item.textContent = text;
+      return item;
+    };
+
+    addSection(
+      'Việc cần làm',
+      (note.actionItems || []).map((item) =>
+        this.createActionItemElement(note, item, false),
+      ),
+    );
+    addSection('Quyết định', (note.decisions || []).map(textItem));
+    addSection('Người liên quan', (note.people || []).map(textItem));
+    addSection(
+      'Mốc thời gian',
+      (note.keyDates || []).map((keyDate) => {
+        const item = document.createElement('li');
+        const date = document.createElement('strong');
+        date.textContent = keyDate.date;
+        item.append(date, `: ${keyDate.description}`);
+        return item;
+      }),
+    );
+
+    const tags = document.createElement('div');
+    tags.className = 'insights-tags';
+    for (const tag of note.tags || []) {
+      const chip = document.createElement('span');
+      chip.className = 'insights-tag';
+      chip.textContent = `#${tag}`;
+      tags.appendChild(chip);
+    }
+    if (tags.childElementCount > 0) {
+      const heading = document.createElement('h3');
+      heading.className = 'insights-heading';
+      heading.textContent = 'Thẻ';
+      this.insightsNoteView.append(heading, tags);
+    }
+  }
+
+  private renderTodoList(): void {
+    const entries = collectTodos(
+      this.notes,
+      this.todoStatusSelect.value as TodoStatusFilter,
+      this.todoSearchInput.value,
+    );
+    this.todoList.innerHTML = '';
+    if (entries.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'insights-none';
+      empty.textContent = 'Không có việc cần làm phù hợp.';
+      this.todoList.appendChild(empty);
+      return;
+    }
+    for (const {note, item} of entries) {
+      this.todoList.appendChild(this.createActionItemElement(note, item, true));
+    }
+  }
+
+  private createActionItemElement(
+    note: Note,
+    item: ActionItem,
+    showNote: boolean,
+  ): HTMLLIElement {
+    const element = document.createElement('li');
+    element.className = 'action-item';
+    element.classList.toggle('is-done', item.done);
+
+    const label = document.createElement('label');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = item.done;
+    checkbox.addEventListener('change', () =>
+      this.setActionItemDone(note, item, checkbox.checked),
+    );
+    const text = document.createElement('span');
+    text.textContent = item.text;
+    label.append(checkbox, text);
+    element.appendChild(label);
+
+    const details = [item.owner, item.dueDate && `hạn: ${item.dueDate}`]
+      .filter(Boolean)
+      .join(' · ');
+    if (details || showNote) {
+      const meta = document.createElement('div');
+      meta.className = 'action-item-meta';
+      meta.textContent = details;
+      if (showNote) {
+        const link = document.createElement('button');
+        link.className = 'action-item-note';
+        link.textContent = note.title || 'Ghi chú không tiêu đề';
+        link.addEventListener('click', () => this.openNote(note.id));
+        if (details) meta.append(' · ');
+        meta.appendChild(link);
+      }
+      element.appendChild(meta);
+    }
+    return element;
+  }
+
+  private setActionItemDone(note: Note, item: ActionItem, done: boolean) {
+    item.done = done;
+    this.persistNote(note);
+    this.renderInsights();
+  }
+
+  /**
+   * Pulls action items, decisions, people, dates and tags out of a note with
+   * a JSON schema request. Runs after every polish; `manual` is set when the
+   * user asked for it, so failures are reported instead of only logged.
+   */
+  private async extractNoteFields(note: Note, manual = false): Promise<void> {
+    if (this.extractingNoteIds.has(note.id) || !note.rawTranscription.trim()) {
+      return;
+    }
+    this.extractingNoteIds.add(note.id);
+    this.renderInsights();
+    if (manual) {
+      this.recordingStatus.textContent = 'Đang trích xuất thông tin...';
+    }
+    try {
+      const response = await this.provider.generate({
+        messages: promptMessages(buildExtractionPrompt(note)),
+        responseSchema: EXTRACTION_SCHEMA,
+      });
+      const fields = parseExtraction(
+        await readAllText(response),
+        note.actionItems,
+      );
+      Object.assign(note, fields, {extractedAt: Date.now()});
+      this.persistNote(note);
+      if (manual) {
+        this.recordingStatus.textContent = `Đã trích xuất ${fields.actionItems.length} việc cần làm.`;
+      }
+    } catch (error) {
+      console.error('Error extracting note fields:', error);
+      if (manual) {
+        this.recordingStatus.textContent =
+          'Lỗi trích xuất thông tin. Vui lòng thử lại.';
+      }
+    } finally {
+      this.extractingNoteIds.delete(note.id);
+      this.renderInsights();
+    }
+  }
+
+  private getGlossary(note: Note | null): ResolvedGlossary {
+    return resolveGlossary(this.glossaries, note?.folder);
+  }
+
+  private getFolders(): string[] {
+    const folders = new Set(Object.keys(this.glossaries.folders));
+    for (const note of this.notes) {
+      if (note.folder) folders.add(note.folder);
+    }
+    if (this.currentNote?.folder) folders.add(this.currentNote.folder);
+    return [...folders].sort((a, b) => a.localeCompare(b));
+  }
+
+  private renderFolderOptions(): void {
+    this.folderOptions.innerHTML = '';
+    for (const folder of this.getFolders()) {
+      this.folderOptions.appendChild(new Option(folder));
+    }
+  }
+
+  private setNoteFolder(value: string): void {
+    const note = this.currentNote;
+    if (!note) return;
+    note.folder = value.trim() || undefined;
+    this.noteFolderInput.value = note.folder || '';
+    this.saveCurrentNote();
+    this.renderFolderOptions();
+  }
+
+  private showGlossaryModal(): void {
+    this.glossaryDraft = {
+      global: {...this.glossaries.global},
+      folders: {...this.glossaries.folders},
+    };
+    this.glossaryScopeSelect.innerHTML = '';
+    this.glossaryScopeSelect.add(new Option('Tất cả ghi chú', ''));
+    for (const folder of this.getFolders()) {
+      this.glossaryScopeSelect.add(new Option(`Thư mục "${folder}"`, folder));
+    }
+    this.loadGlossaryScope(this.currentNote?.folder || '');
+    this.applyGlossaryRulesButton.disabled =
+      !this.currentNote?.rawTranscription.trim();
+    this.glossaryModal.classList.add('is-visible');
+  }
+
+  private loadGlossaryScope(scope: string): void {
+    this.glossaryScope = scope;
+    this.glossaryScopeSelect.value = scope;
+    const glossary = scope
+      ? this.glossaryDraft.folders[scope] || EMPTY_GLOSSARY
+      : this.glossaryDraft.global;
+    this.glossaryTermsInput.value = glossary.terms;
+    this.glossaryRulesInput.value = glossary.rules;
+  }
+
+  private stashGlossaryScope(): void {
+    const glossary = {
+      terms: this.glossaryTermsInput.value,
+      rules: this.glossaryRulesInput.value,
+    };
+    if (!this.glossaryScope) {
+      this.glossaryDraft.global = glossary;
+    } else if (glossary.terms.trim() || glossary.rules.trim()) {
+      this.glossaryDraft.folders[this.glossaryScope] = glossary;
+    } else {
+      delete this.glossaryDraft.folders[this.glossaryScope];
+    }
+  }
+
+  private saveGlossaryDraft(): void {
+    this.stashGlossaryScope();
+    this.glossaries = this.glossaryDraft;
+    saveGlossaries(this.glossaries);
+    this.renderFolderOptions();
+  }
+
+  // Runs the find-and-replace rules over a transcript made before they were
+  // added. New transcripts have them applied as they come in.
+  private applyGlossaryRulesToCurrentNote(): void {
+    const note = this.currentNote;
+    if (!note?.rawTranscription.trim()) return;
+    const {rules} = this.getGlossary(note);
+    if (rules.length === 0) {
+      this.recordingStatus.textContent = 'Chưa có quy tắc thay thế nào.';
+      return;
+    }
+    const result = applyReplaceRulesToTranscript(
+      {text: note.rawTranscription, segments: note.segments || []},
+      rules,
+      note.speakerNames,
+    );
+    if (result.text === note.rawTranscription) {
+      this.recordingStatus.textContent =
+        'Bản thô không có cụm từ nào cần thay thế.';
+      return;
+    }
+    note.rawTranscription = result.text;
+    if (note.segments) note.segments = result.segments;
+    this.renderCurrentRawTranscription();
+    this.saveCurrentNote();
+    this.recordingStatus.textContent =
+      'Đã áp dụng quy tắc thay thế cho bản thô. Trau chuốt lại để cập nhật ghi chú.';
+  }
+
+  private showDigestModal(): void {
+    if (this.isRecording) {
+      this.recordingStatus.textContent =
+        'Vui lòng dừng ghi âm trước khi tổng hợp ghi chú.';
+      return;
+    }
+    if (this.digestStyleSelect.options.length === 0) {
+      for (const style of DIGEST_STYLES) {
+        this.digestStyleSelect.add(new Option(style.name, style.id));
+      }
+    }
+    const tag = this.digestTagSelect.value;
+    this.digestTagSelect.innerHTML = '';
+    this.digestTagSelect.add(new Option('Tất cả thẻ', ''));
+    for (const t of collectTags(this.notes)) {
+      this.digestTagSelect.add(new Option(`#${t}`, t));
+    }
+    this.digestTagSelect.value = tag;
+    if (!this.digestTagSelect.value) this.digestTagSelect.value = '';
+    // Default to today's notes, the usual stand-up.
+    if (!this.digestFromInput.value && !this.digestToInput.value) {
+      const today = toDateInputValue(Date.now());
+      this.digestFromInput.value = today;
+      this.digestToInput.value = today;
+    }
+    this.updateDigestCandidates();
+    this.digestModal.classList.add('is-visible');
+  }
+
+  private updateDigestCandidates(): void {
+    this.digestCandidates = filterDigestCandidates(this.notes, {
+      from: this.digestFromInput.value,
+      to: this.digestToInput.value,
+      tag: this.digestTagSelect.value,
+    });
+    this.digestSelectedIds = new Set(
+      this.digestCandidates.map((note) => note.id),
+    );
+    this.renderDigestNoteList();
+  }
+
+  private renderDigestNoteList(): void {
+    this.digestNoteList.innerHTML = '';
+    if (this.digestCandidates.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'note-list-empty';
+      empty.textContent = 'Không có ghi chú nào phù hợp với bộ lọc.';
+      this.digestNoteList.appendChild(empty);
+    }
+    for (const note of this.digestCandidates) {
+      const item = document.createElement('li');
+      const label = document.createElement('label');
+      label.className = 'form-checkbox';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = this.digestSelectedIds.has(note.id);
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          this.digestSelectedIds.add(note.id);
+        } else {
+          this.digestSelectedIds.delete(note.id);
+        }
+        this.updateDigestCount();
+      });
+      const title = document.createElement('span');
+      title.textContent = note.title || 'Ghi chú không tiêu đề';
+      const date = document.createElement('span');
+      date.className = 'note-list-date';
+      date.textContent = new Date(note.timestamp).toLocaleString('vi-VN');
+      label.append(checkbox, title, date);
+      item.appendChild(label);
+      this.digestNoteList.appendChild(item);
+    }
+    this.updateDigestCount();
+  }
+
+  private updateDigestCount(): void {
+    const selected = this.digestSelectedIds.size;
+    const total = this.digestCandidates.length;
+    this.digestCount.textContent = `Đã chọn ${selected}/${total} ghi chú`;
+    this.digestSelectAllButton.textContent =
+      selected < total ? 'Chọn tất cả' : 'Bỏ chọn tất cả';
+    this.digestSelectAllButton.disabled = total === 0;
+    this.createDigestButton.disabled = selected === 0;
+  }
+
+  /**
+   * Writes one summary of the selected notes into a new digest note. Like a
+   * polish, the note is only saved once the whole response is in.
+   */
+  private async createDigest(): Promise<void> {
+    const sources = this.digestCandidates.filter((note) =>
+      this.digestSelectedIds.has(note.id),
+    );
+    const style =
+      DIGEST_STYLES.find((s) => s.id === this.digestStyleSelect.value) ||
+      DIGEST_STYLES[0];
+    if (sources.length === 0 || this.isRecording) return;
+
+    this.cancelStream();
+    if (this.autosaveTimeoutId) this.saveCurrentNote();
+    const now = Date.now();
+    const note: Note = {
+      id: `note_${now}`,
+      kind: 'digest',
+      title: buildDigestTitle(style, sources),
+      rawTranscription: buildDigestSource(sources),
+      polishedNote: '',
+      sourceNoteIds: sources.map((source) => source.id),
+      digestStyleId: style.id,
+      timestamp: now,
+      updatedAt: now,
+    };
+    this.currentNote = note;
+    this.renderNote(note);
+    this.renderNoteList();
+    this.setPlayerAudio(null);
+    this.updateRetryButton();
+    this.showTab('note');
+
+    const stream = this.beginStream();
+    this.recordingStatus.textContent = `Đang tổng hợp ${sources.length} ghi chú...`;
+    this.polishedNote.contentEditable = 'false';
+    this.polishedNote.classList.add('is-streaming');
+    try {
+      const response = await this.provider.generate({
+        messages: promptMessages(
+          buildDigestPrompt(
+            style,
+            note.rawTranscription,
+            describeOutputLanguage(this.outputLanguage),
+          ),
+        ),
+      });
+      const text = await stream.readText(response, (partial) => {
+        this.polishedNote.innerHTML = marked.parse(partial);
+        this.polishedNote.classList.remove('placeholder-active');
+      });
+      if (!text.trim()) throw new Error('Empty digest response');
+
+      note.polishedNote = appendDigestSources(text, sources);
+      note.polishedAt = Date.now();
+      note.title = deriveNoteTitle(text) || note.title;
+      if (this.currentNote === note) {
+        this.renderNote(note);
+        this.saveCurrentNote();
+      } else {
+        this.persistNote(note);
+      }
+      this.recordingStatus.textContent = `Đã tổng hợp ${sources.length} ghi chú.`;
+    } catch (error) {
+      if (error instanceof StreamCancelledError) {
+        this.recordingStatus.textContent = 'Đã hủy tổng hợp.';
+      } else {
+        console.error('Error creating digest:', error);
+        this.recordingStatus.textContent =
+          'Lỗi tổng hợp ghi chú. Vui lòng thử lại.';
+      }
+      if (this.currentNote === note) this.renderNote(note);
+    } finally {
+      this.endStream(stream);
+      this.polishedNote.classList.remove('is-streaming');
+      if (!this.activeVariant) this.polishedNote.contentEditable = 'true';
+    }
+  }
+
+  private renderChat(): void {
+    const note = this.currentNote;
+    const history = note?.chatHistory || [];
+    const pending =
+      this.pendingChat?.noteId === note?.id ? this.pendingChat : null;
+    this.chatMessages.innerHTML = '';
+    this.sendChatButton.disabled = !!this.pendingChat;
+    this.clearChatButton.disabled = history.length === 0 || !!pending;
+
+    if (history.length === 0 && !pending) {
+      const empty = document.createElement('p');
+      empty.className = 'chat-empty';
+      empty.textContent =
+        'Đặt câu hỏi về nội dung ghi âm, ví dụ: "Có những hạn chót nào được nhắc đến?" hoặc "Tóm tắt ý kiến của từng người".';
+      this.chatMessages.appendChild(empty);
+      return;
+    }
+
+    for (const message of history) {
+      this.chatMessages.appendChild(this.createChatBubble(message));
+    }
+    if (pending) {
+      this.chatMessages.appendChild(
+        this.createChatBubble({
+          role: 'user',
+          text: pending.question,
+          createdAt: Date.now(),
+        }),
+      );
+      const typing = document.createElement('div');
+      typing.className = 'chat-message chat-message-model is-pending';
+      typing.textContent = 'Đang trả lời...';
+      this.chatMessages.appendChild(typing);
+    }
+    this.chatMessages.scrollTop = this.chatMessages.scrollHeight;
+  }
+
+  private createChatBubble(message: ChatMessage): HTMLDivElement {
+    const bubble = document.createElement('div');
+    bubble.className = `chat-message chat-message-${message.role}`;
+    if (message.role === 'model') {
+      bubble.innerHTML = marked.parse(linkCitations(message.text));
+    } else {
+      bubble.textContent = message.text;
+    }
+    return bubble;
+  }
+
+  private async sendChatMessage(): Promise<void> {
+    const question = this.chatInput.value.trim();
+    const note = this.currentNote;
+    if (!question || !note || this.pendingChat) return;
+    if (!note.rawTranscription.trim()) {
+      this.recordingStatus.textContent =
+        'Chưa có bản ghi để hỏi đáp. Hãy ghi âm hoặc nhập tệp trước.';
+      return;
+    }
+
+    const questionMessage: ChatMessage = {
+      role: 'user',
+      text: question,
+      createdAt: Date.now(),
+    };
+    const history = [...(note.chatHistory || []), questionMessage];
+    this.pendingChat = {noteId: note.id, question};
+    this.chatInput.value = '';
+    this.renderChat();
+
+    try {
+      const response = await this.provider.generate({
+        messages: history,
+        systemInstruction: buildChatSystemInstruction(note),
+      });
+      const answer = (await readAllText(response)).trim();
+      if (!answer) throw new Error('Empty answer from model');
+
+      note.chatHistory = [
+        ...history,
+        {role: 'model', text: answer, createdAt: Date.now()},
+      ];
+      this.pendingChat = null;
+      if (this.currentNote?.id === note.id) {
+        this.saveCurrentNote();
+      } else if (this.notes.some((n) => n.id === note.id)) {
+        saveNote({...note}).catch((e) =>
+          console.error('Error saving chat history:', e),
+        );
+      }
+    } catch (error) {
+      console.error('Error answering question:', error);
+      this.pendingChat = null;
+      if (this.currentNote?.id === note.id && !this.chatInput.value) {
+        this.chatInput.value = question;
+      }
+      this.recordingStatus.textContent =
+        'Lỗi trả lời câu hỏi. Vui lòng thử lại.';
+    }
+    this.renderChat();
+  }
+
+  private clearChat(): void {
+    const note = this.currentNote;
+    if (!note?.chatHistory?.length) return;
+    if (!window.confirm('Xóa toàn bộ lịch sử hỏi đáp của ghi chú này?')) return;
+    note.chatHistory = [];
+    this.saveCurrentNote();
+    this.renderChat();
+  }
+
+  // Follows a citation in a chat answer to the cited transcript segment.
+  private jumpToTranscriptTime(seconds: number): void {
+    const rows = Array.from(
+      this.rawTranscription.querySelectorAll<HTMLElement>(
+        '.transcript-segment',
+      ),
+    );
+    const row =
+      rows.filter((r) => Number(r.dataset.start) <= seconds + 0.5).pop() ||
+      rows[0];
+    if (row) {
+      this.showTab('raw');
+      row.scrollIntoView({behavior: 'smooth', block: 'center'});
+    }
+    if (this.audioObjectUrl) {
+      this.noteAudio.currentTime = seconds;
+      this.noteAudio.play().catch((e) => console.warn('Playback failed', e));
+    }
+  }
+
+  // A failed transcription can only be resumed from the note it belongs to.
+  private updateRetryButton(): void {
+    const note = this.currentNote;
+    const canRetry =
+      !!note &&
+      (note.processingState === 'failed' ||
+        note.processingState === 'recorded') &&
+      !!note.resumeStep &&
+      !this.activeStream &&
+      !this.backgroundNoteIds.has(note.id);
+    this.retryTranscriptionButton.classList.toggle('hidden', !canRetry);
+  }
+
+  private getTemplates(): PolishTemplate[] {
+    const defaultPrompt = this.settings.defaultPolishPrompt.trim();
+    const builtIns = defaultPrompt
+      ? BUILT_IN_TEMPLATES.map((template) =>
+          template.id === DEFAULT_TEMPLATE_ID
+            ? {...template, prompt: defaultPrompt}
+            : template,
+        )
+      : BUILT_IN_TEMPLATES;
+    return [...builtIns, ...this.customTemplates];
+  }
+
+  // The current instructions of a template, falling back to the snapshot
+  // stored on the note if the custom template has since been deleted.
+  private getTemplateInstructions(
+    templateId: string,
+    note: Note | null,
+  ): string {
+    const template = this.getTemplates().find((t) => t.id === templateId);
+    if (template) return template.prompt;
+    if (note?.templateId === templateId && note.templatePrompt) {
+      return note.templatePrompt;
+    }
+    return this.getTemplateInstructions(DEFAULT_TEMPLATE_ID, null);
+  }
+
+  private async loadCustomTemplates(): Promise<void> {
+    try {
+      this.customTemplates = await getCustomTemplates();
+    } catch (error) {
+      console.error('Error loading templates:', error);
+    }
+    this.renderTemplateSelect();
+    this.renderTemplateList();
+  }
+
+  private renderTemplateSelect(): void {
+    const selectedId = this.currentNote?.templateId || this.selectedTemplateId;
+    this.fillTemplateOptions(this.templateSelect);
+
+    if (this.getTemplates().some((t) => t.id === selectedId)) {
+      this.templateSelect.value = selectedId;
+    } else if (this.currentNote?.templateId === selectedId) {
+      // Keep showing a deleted template the note was polished with.
+      this.templateSelect.appendChild(new Option('Mẫu đã xóa', selectedId));
+      this.templateSelect.value = selectedId;
+    } else {
+      this.templateSelect.value = DEFAULT_TEMPLATE_ID;
+    }
+  }
+
+  private fillTemplateOptions(select: HTMLSelectElement): void {
+    select.innerHTML = '';
+    const addGroup = (label: string, templates: PolishTemplate[]) => {
+      if (templates.length === 0) return;
+      const group = document.createElement('optgroup');
+      group.label = label;
+      for (const template of templates) {
+        group.appendChild(new Option(template.name, template.id));
+      }
+      select.appendChild(group);
+    };
+    addGroup('Mẫu có sẵn', BUILT_IN_TEMPLATES);
+    addGroup('Mẫu của bạn', this.customTemplates);
+  }
+
+  private getTemplateName(templateId?: string): string {
+    const template = this.getTemplates().find((t) => t.id === templateId);
+    return template?.name || 'Mẫu đã xóa';
+  }
+
+  private showTemplatesModal(): void {
+    this.editTemplate(null);
+    this.renderTemplateList();
+    this.templatesModal.classList.add('is-visible');
+  }
+
+  private renderTemplateList(): void {
+    this.templateList.innerHTML = '';
+    for (const template of this.getTemplates()) {
+      const item = document.createElement('li');
+      item.className = 'template-list-item';
+
+      const name = document.createElement('span');
+      name.className = 'template-list-name';
+      name.textContent = template.name;
+      item.appendChild(name);
+
+      if (template.builtIn) {
+        const badge = document.createElement('span');
+        badge.className = 'template-list-badge';
+        badge.textContent = 'Có sẵn';
+        item.appendChild(badge);
+      }
+
+      const copyButton = document.createElement('button');
+      copyButton.type = 'button';
+      copyButton.className = 'note-list-action';
+      copyButton.title = 'Tạo bản sao để tùy chỉnh';
+      copyButton.innerHTML = '<i class="fas fa-copy"></i>';
+      copyButton.addEventListener('click', () => {
+        this.editTemplate(null);
+        this.templateNameInput.value = `${template.name} (bản sao)`;
+        this.templatePromptInput.value = template.prompt;
+        this.templateNameInput.focus();
+      });
+      item.appendChild(copyButton);
+
+      if (!template.builtIn) {
+        const editButton = document.createElement('button');
+        editButton.type = 'button';
+        editButton.className = 'note-list-action';
+        editButton.title = 'Sửa';
+        editButton.innerHTML = '<i class="fas fa-pen"></i>';
+        editButton.addEventListener('click', () => this.editTemplate(template));
+
+        const deleteButton = document.createElement('button');
+        deleteButton.type = 'button';
+        deleteButton.className = 'note-list-action';
+        deleteButton.title = 'Xóa';
+        deleteButton.innerHTML = '<i class="fas fa-trash"></i>';
+        deleteButton.addEventListener('click', () =>
+          this.removeTemplate(template),
+        );
+        item.append(editButton, deleteButton);
+      }
+
+      this.templateList.appendChild(item);
+    }
+  }
+
+  private editTemplate(template: PolishTemplate | null): void {
+    this.editingTemplateId = template?.id || null;
+    this.templateNameInput.value = template?.name || '';
+    this.templatePromptInput.value = template?.prompt || '';
+    this.cancelTemplateEditButton.classList.toggle('hidden', !template);
+    if (template) this.templateNameInput.focus();
+  }
+
+  private async saveTemplateFromForm(): Promise<void> {
+    const name = this.templateNameInput.value.trim();
+    const prompt = this.templatePromptInput.value.trim();
+    if (!name || !prompt) return;
+
+    const template: PolishTemplate = {
+      id: this.editingTemplateId || `template_${Date.now()}`,
+      name,
+      prompt,
+    };
+    try {
+      await saveCustomTemplate(template);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      this.recordingStatus.textContent = 'Lỗi lưu mẫu trau chuốt.';
+      return;
+    }
+
+    this.customTemplates = [
+      ...this.customTemplates.filter((t) => t.id !== template.id),
+      template,
+    ].sort((a, b) => a.name.localeCompare(b.name));
+    this.editTemplate(null);
+    this.renderTemplateList();
+    this.renderTemplateSelect();
+  }
+
+  private async removeTemplate(template: PolishTemplate): Promise<void> {
+    if (!window.confirm(`Xóa mẫu "${template.name}"?`)) return;
+
+    try {
+      await deleteCustomTemplate(template.id);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      this.recordingStatus.textContent = 'Lỗi xóa mẫu trau chuốt.';
+      return;
+    }
+
+    this.customTemplates = this.customTemplates.filter(
+      (t) => t.id !== template.id,
+    );
+    if (this.selectedTemplateId === template.id) {
+      this.selectedTemplateId = DEFAULT_TEMPLATE_ID;
+      localStorage.setItem(SELECTED_TEMPLATE_KEY, DEFAULT_TEMPLATE_ID);
+    }
+    if (this.editingTemplateId === template.id) this.editTemplate(null);
+    this.renderTemplateList();
+    this.renderTemplateSelect();
+  }
+
+  private showRepolishModal(): void {
+    if (!this.currentNote?.rawTranscription.trim()) {
+      this.recordingStatus.textContent = 'Không có bản ghi âm để trau chuốt';
+      return;
+    }
+    this.fillTemplateOptions(this.repolishTemplateSelect);
+    this.repolishTemplateSelect.value = this.templateSelect.value;
+    if (!this.repolishTemplateSelect.value) {
+      this.repolishTemplateSelect.value = DEFAULT_TEMPLATE_ID;
+    }
+    this.repolishInstructionsInput.value =
+      this.currentNote.extraInstructions || '';
+    this.repolishModal.classList.add('is-visible');
+  }
+
+  private archiveCurrentPolish(note: Note): void {
+    if (!note.polishedNote && !note.polishedHtml) return;
+    const version: PolishVersion = {
+      polishedNote: note.polishedNote,
+      polishedHtml: note.polishedHtml,
+      templateId: note.templateId,
+      extraInstructions: note.extraInstructions,
+      createdAt: note.polishedAt || note.updatedAt,
+    };
+    note.polishHistory = [version, ...(note.polishHistory || [])].slice(
+      0,
+      MAX_POLISH_HISTORY,
+    );
+  }
+
+  private renderPolishVersion(
+    target: HTMLElement,
+    version: {polishedNote: string; polishedHtml?: string},
+  ): void {
+    target.innerHTML =
+      version.polishedHtml ||
+      (version.polishedNote
+        ? marked.parse(version.polishedNote)
+        : '<p><em>Trống</em></p>');
+  }
+
+  private showHistoryModal(): void {
+    const note = this.currentNote;
+    if (!note) return;
+    this.selectedHistoryIndex = null;
+    this.renderPolishVersion(this.historyPreviewCurrent, note);
+    this.historyPreviewSelected.innerHTML =
+      '<p><em>Chọn một phiên bản để so sánh.</em></p>';
+    this.restoreVersionButton.disabled = true;
+    this.renderHistoryList();
+    this.historyModal.classList.add('is-visible');
+  }
+
+  private renderHistoryList(): void {
+    const history = this.currentNote?.polishHistory || [];
+    this.historyList.innerHTML = '';
+
+    if (history.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'note-list-empty';
+      empty.textContent = 'Chưa có phiên bản trước nào.';
+      this.historyList.appendChild(empty);
+      return;
+    }
+
+    history.forEach((version, index) => {
+      const item = document.createElement('li');
+      item.className = 'note-list-item';
+      if (index === this.selectedHistoryIndex) item.classList.add('active');
+
+      const button = document.createElement('button');
+      button.className = 'note-list-open';
+      const title = document.createElement('span');
+      title.className = 'note-list-title';
+      title.textContent = this.getTemplateName(version.templateId);
+      const date = document.createElement('span');
+      date.className = 'note-list-date';
+      date.textContent = new Date(version.createdAt).toLocaleString('vi-VN');
+      button.append(title, date);
+      if (version.extraInstructions) {
+        button.title = version.extraInstructions;
+      }
+      button.addEventListener('click', () => {
+        this.selectedHistoryIndex = index;
+        this.renderPolishVersion(this.historyPreviewSelected, version);
+        this.restoreVersionButton.disabled = false;
+        this.renderHistoryList();
+      });
+
+      item.appendChild(button);
+      this.historyList.appendChild(item);
+    });
+  }
+
+  // Swaps the selected version with the current polished note, so restoring
+  // is itself undoable from the history.
+  private restorePolishVersion(): void {
+    const note = this.currentNote;
+    const index = this.selectedHistoryIndex;
+    if (!note?.polishHistory || index === null) return;
+    const version = note.polishHistory[index];
+    if (!version) return;
+
+    note.polishHistory = note.polishHistory.filter((_, i) => i !== index);
+    this.archiveCurrentPolish(note);
+    note.polishedNote = version.polishedNote;
+    note.polishedHtml = version.polishedHtml;
+    note.templateId = version.templateId;
+    note.extraInstructions = version.extraInstructions;
+    note.polishedAt = version.createdAt;
+
+    this.renderNote(note);
+    this.saveCurrentNote();
+    this.historyModal.classList.remove('is-visible');
+    this.recordingStatus.textContent = 'Đã khôi phục phiên bản trước.';
+  }
+
+  private populateLanguageSelects(): void {
+    const addOptions = (
+      select: HTMLSelectElement,
+      firstLabel?: string,
+      firstValue?: string,
+    ) => {
+      if (firstLabel && firstValue)
+        select.appendChild(new Option(firstLabel, firstValue));
+      for (const language of LANGUAGES) {
+        select.appendChild(new Option(language.label, language.code));
+      }
+    };
+    addOptions(
+      this.transcriptionLanguageSelect,
+      'Tự động nhận diện',
+      AUTO_DETECT_LANGUAGE,
+    );
+    addOptions(
+      this.outputLanguageSelect,
+      'Giống ngôn ngữ ghi âm',
+      SAME_AS_TRANSCRIPT_LANGUAGE,
+    );
+    addOptions(this.translateLanguageSelect);
+
+    this.transcriptionLanguageSelect.value = this.transcriptionLanguage;
+    this.outputLanguageSelect.value = this.outputLanguage;
+  }
+
+  private renderVariantSelect(): void {
+    const translations = this.currentNote?.translations || {};
+    const codes = Object.keys(translations);
+    this.variantSelect.innerHTML = '';
+    this.variantSelect.classList.toggle('hidden', codes.length === 0);
+    if (codes.length === 0) return;
+
+    this.variantSelect.appendChild(new Option('Bản gốc', ''));
+    for (const code of codes) {
+      const label = findLanguage(code)?.label || code;
+      this.variantSelect.appendChild(new Option(`Bản dịch: ${label}`, code));
+    }
+    this.variantSelect.value = this.activeVariant || '';
+  }
+
+  private showVariant(languageCode: string | null): void {
+    const note = this.currentNote;
+    if (!note) return;
+    const translation = languageCode
+      ? note.translations?.[languageCode]
+      : undefined;
+
+    if (!translation) {
+      this.renderNote(note);
+      return;
+    }
+
+    // Translations are read-only; edits belong in the original note.
+    this.activeVariant = languageCode;
+    this.polishedNote.innerHTML = marked.parse(translation.polishedNote);
+    this.polishedNote.classList.remove('placeholder-active');
+    this.polishedNote.classList.add('is-translation');
+    this.polishedNote.contentEditable = 'false';
+    this.renderVariantSelect();
+  }
+
+  private showSettingsModal(): void {
+    const settings = this.providerSettings;
+    this.providerSelect.innerHTML = '';
+    for (const [id, label] of Object.entries(PROVIDER_LABELS)) {
+      this.providerSelect.add(new Option(label, id));
+    }
+    this.providerSelect.value = settings.provider;
+    this.modelInput.value = settings.model;
+    this.openaiBaseUrlInput.value = settings.openaiBaseUrl;
+    this.openaiApiKeyInput.value = settings.openaiApiKey;
+    this.openaiTranscriptionModelInput.value =
+      settings.openaiTranscriptionModel;
+    this.geminiApiKeyInput.value = settings.geminiApiKey;
+
+    this.echoCancellationInput.checked = this.settings.echoCancellation;
+    this.noiseSuppressionInput.checked = this.settings.noiseSuppression;
+    this.autoGainControlInput.checked = this.settings.autoGainControl;
+    this.trimSilenceInput.checked = this.settings.trimSilence;
+    this.reviewTrimInput.checked = this.settings.reviewTrim;
+    this.defaultPolishPromptInput.value = this.settings.defaultPolishPrompt;
+    this.defaultPolishPromptInput.placeholder = BUILT_IN_TEMPLATES.find(
+      (t) => t.id === DEFAULT_TEMPLATE_ID,
+    )!.prompt;
+    this.updateProviderFields();
+    this.renderInputDeviceSelects();
+    this.settingsModal.classList.add('is-visible');
+  }
+
+  private updateProviderFields(): void {
+    const provider = this.providerSelect.value as ProviderId;
+    const defaultModel = DEFAULT_MODELS[provider];
+    // Swap in the new provider's default unless a custom model was typed.
+    if (
+      !this.modelInput.value.trim() ||
+      Object.values(DEFAULT_MODELS).includes(this.modelInput.value.trim())
+    ) {
+      this.modelInput.value = defaultModel;
+    }
+    this.modelInput.placeholder = defaultModel;
+    this.modelInput.disabled = provider === 'mock';
+    this.openaiSettings.classList.toggle('hidden', provider !== 'openai');
+    this.mockProviderHint.classList.toggle('hidden', provider !== 'mock');
+    this.geminiSettings.classList.toggle('hidden', provider !== 'gemini');
+  }
+
+  private saveSettings(): void {
+    const provider = this.providerSelect.value as ProviderId;
+    this.providerSettings = {
+      provider,
+      model: this.modelInput.value.trim() || DEFAULT_MODELS[provider],
+      geminiApiKey: this.geminiApiKeyInput.value.trim(),
+      openaiBaseUrl: this.openaiBaseUrlInput.value.trim(),
+      openaiApiKey: this.openaiApiKeyInput.value.trim(),
+      openaiTranscriptionModel: this.openaiTranscriptionModelInput.value.trim(),
+    };
+    saveProviderSettings(this.providerSettings);
+    this.provider = createProvider(this.providerSettings, process.env.API_KEY);
+
+    const inputDeviceChanged =
+      this.inputDeviceSelect.value !== this.settings.inputDeviceId;
+    this.settings = {
+      inputDeviceId: this.inputDeviceSelect.value,
+      echoCancellation: this.echoCancellationInput.checked,
+      noiseSuppression: this.noiseSuppressionInput.checked,
+      autoGainControl: this.autoGainControlInput.checked,
+      trimSilence: this.trimSilenceInput.checked,
+      reviewTrim: this.reviewTrimInput.checked,
+      defaultPolishPrompt: this.defaultPolishPromptInput.value.trim(),
+    };
+    saveAppSettings(this.settings);
+    this.micSelect.value = this.settings.inputDeviceId;
+    if (inputDeviceChanged) {
+      this.selectInputDevice(this.settings.inputDeviceId);
+    }
+    this.renderTemplateSelect();
+    this.renderTemplateList();
+    this.settingsModal.classList.remove('is-visible');
+    this.recordingStatus.textContent = `Đang dùng ${PROVIDER_LABELS[provider]} (${this.providerSettings.model}).`;
+  }
+
+  private async translateNote(languageCode: string): Promise<void> {
+    const note = this.currentNote;
+    const source = note?.polishedHtml || note?.polishedNote;
+    if (!note || !source?.trim()) {
+      this.recordingStatus.textContent =
+        'Không có ghi chú đã trau chuốt để dịch.';
+      return;
+    }
+    const label = findLanguage(languageCode)?.label || languageCode;
+
+    try {
+      this.recordingStatus.textContent = `Đang dịch sang ${label}...`;
+      const response = await this.provider.generate({
+        messages: promptMessages(buildTranslationPrompt(source, languageCode)),
+      });
+      const translatedText = (await readAllText(response)).trim();
+      if (!translatedText) {
+        this.recordingStatus.textContent =
+          'Dịch thất bại hoặc không có nội dung.';
+        return;
+      }
+
+      note.translations = {
+        ...note.translations,
+        [languageCode]: {
+          language: languageCode,
+          polishedNote: translatedText,
+          createdAt: Date.now(),
+        },
+      };
+      if (this.currentNote?.id === note.id) {
+        this.saveCurrentNote();
+        this.showVariant(languageCode);
+      } else {
+        saveNote({...note}).catch((e) =>
+          console.error('Error saving translation:', e),
+        );
+      }
+      this.recordingStatus.textContent = `Đã dịch sang ${label}.`;
+    } catch (error) {
+      console.error('Error translating note:', error);
+      this.recordingStatus.textContent = 'Lỗi dịch ghi chú. Vui lòng thử lại.';
+    }
+  }
+
+  private toggleExportMenu(): void {
+    const hasSegments = !!this.currentNote?.segments?.length;
+    this.exportMenu
+      .querySelectorAll<HTMLButtonElement>('[data-subtitle-format]')
+      .forEach((item) => {
+        item.disabled = !hasSegments;
+        item.title = hasSegments
+          ? ''
+          : 'Ghi chú này không có dữ liệu thời gian';
+      });
+    this.exportMenu.classList.toggle('hidden');
+  }
+
+  private exportNote(format: ExportFormat): void {
+    const note = this.currentNote;
+    if (!note) return;
+    if (this.autosaveTimeoutId) this.saveCurrentNote();
+
+    const title =
+      this.getEditableText(this.editorTitle) || 'Ghi chú không tiêu đề';
+    const hasPolished = !!(note.polishedNote || note.polishedHtml);
+    if (!hasPolished && !note.rawTranscription && format !== 'txt') {
+      this.recordingStatus.textContent = 'Ghi chú trống, không có gì để xuất.';
+      return;
+    }
+
+    // Without a polished note, fall back to the raw transcript.
+    const markdown = hasPolished
+      ? noteToMarkdown(note, title)
+      : `# ${title}\n\n${note.rawTranscription}\n`;
+
+    switch (format) {
+      case 'md':
+        downloadBlob(
+          new Blob([markdown], {type: 'text/markdown;charset=utf-8'}),
+          toFileName(title, 'md'),
+        );
+        break;
+      case 'txt':
+        downloadBlob(
+          new Blob([noteToPlainText(note, title)], {
+            type: 'text/plain;charset=utf-8',
+          }),
+          toFileName(title, 'txt'),
+        );
+        break;
+      case 'docx':
+        downloadBlob(
+          markdownToDocx(title, markdown),
+          toFileName(title, 'docx'),
+        );
+        break;
+      case 'pdf':
+        printNoteAsPdf(title, marked.parse(markdown));
+        break;
+      case 'srt':
+      case 'vtt': {
+        if (!note.segments?.length) {
+          this.recordingStatus.textContent =
+            'Ghi chú này không có dữ liệu thời gian để xuất phụ đề.';
+          return;
+        }
+        const content =
+          format === 'srt'
+            ? segmentsToSrt(note.segments, note.speakerNames)
+            : segmentsToVtt(note.segments, note.speakerNames);
+        downloadBlob(
+          new Blob([content], {
+            type: format === 'srt' ? 'application/x-subrip' : 'text/vtt',
+          }),
+          toFileName(title, format),
+        );
+        break;
+      }
+    }
+  }
+
+  private async importFile(file: File): Promise<void> {
+    if (this.isRecording) {
+      this.recordingStatus.textContent =
+        'Vui lòng dừng ghi âm trước khi nhập tệp.';
+      return;
+    }
+
+    const error = validateImportFile(file);
+    const mimeType = resolveImportMimeType(file);
+    if (error || !mimeType) {
+      this.recordingStatus.textContent = error || 'Không thể nhập tệp này.';
+      return;
+    }
+
+    // Import into the current note only if it is still blank.
+    const current = this.currentNote;
+    if (
+      !current ||
+      current.title ||
+      current.rawTranscription ||
+      current.polishedNote ||
+      current.audioMimeType
+    ) {
+      this.createNewNote();
+    }
+
+    if (this.currentNote) {
+      const title = file.name.replace(/\.[^.]+$/, '').trim();
+      this.currentNote.title = title;
+      this.renderNote(this.currentNote);
+    }
+
+    this.recordingStatus.textContent = `Đang nhập "${file.name}"...`;
+    const audioBlob =
+      file.type === mimeType ? file : new Blob([file], {type: mimeType});
+    await this.processAudio(audioBlob);
+  }
+
+  private async attachAudioToNote(audioBlob: Blob): Promise<void> {
+    const note = this.currentNote;
+    if (!note) return;
+
+    note.audioMimeType = audioBlob.type || 'audio/webm';
+    note.keptRegions = undefined;
+    note.cutRegions = undefined;
+    this.setPlayerAudio(audioBlob);
+    try {
+      await this.saveCurrentNote();
+      await saveNoteAudio(note.id, audioBlob);
+    } catch (error) {
+      console.error('Error saving audio:', error);
+      this.recordingStatus.textContent = 'Lỗi lưu âm thanh gốc.';
+    }
+  }
+
+  private async loadNoteAudio(note: Note): Promise<void> {
+    this.setPlayerAudio(null);
+    if (!note.audioMimeType) return;
+
+    try {
+      const audioBlob = await getNoteAudio(note.id);
+      // The user may have opened another note while this one was loading.
+      if (this.currentNote?.id !== note.id) return;
+      this.setPlayerAudio(audioBlob || null);
+    } catch (error) {
+      console.error('Error loading audio:', error);
+    }
+  }
+
+  private setPlayerAudio(audioBlob: Blob | null): void {
+    this.noteAudio.pause();
+    this.playerAudio = audioBlob;
+    if (this.editSamples?.audio !== audioBlob) this.editSamples = null;
+    this.loadWaveform();
+    if (this.audioObjectUrl) {
+      URL.revokeObjectURL(this.audioObjectUrl);
+      this.audioObjectUrl = null;
+    }
+
+    if (!audioBlob) {
+      this.noteAudio.removeAttribute('src');
+      this.noteAudio.load();
+      this.audioPlayer.classList.add('hidden');
+      return;
+    }
+
+    this.audioObjectUrl = URL.createObjectURL(audioBlob);
+    this.noteAudio.src = this.audioObjectUrl;
+    this.noteAudio.playbackRate = Number(this.playbackRateSelect.value);
+
+    const extension = getFileExtension(audioBlob.type);
+    const title = this.currentNote?.title || 'ghi-am';
+    this.audioDownloadLink.href = this.audioObjectUrl;
+    this.audioDownloadLink.download = `${title}.${extension}`;
+
+    this.audioPlayer.classList.remove('hidden');
+    this.updatePlayPauseIcon();
+    this.updateAudioProgress();
+  }
+
+  /** Decodes the player's recording for the waveform editor, if shown. */
+  private async loadWaveform(): Promise<void> {
+    const audio = this.playerAudio;
+    const show = !!audio && this.isWaveformVisible;
+    this.waveformPanel.classList.toggle('hidden', !show);
+    this.waveformToggleButton.classList.toggle(
+      'active',
+      this.isWaveformVisible,
+    );
+    if (!show || this.waveformSource === audio) {
+      if (show) this.waveformEditor.render();
+      this.updateWaveformControls();
+      return;
+    }
+
+    this.waveformSource = audio;
+    this.waveformLevels = null;
+    this.waveformEditor.load(null);
+    this.updateWaveformControls();
+    this.waveformSelectionLabel.textContent = 'Đang tải dạng sóng...';
+    if (audio === this.preparingAudio) return;
+    try {
+      this.showWaveformLevels(audio, await analyzeRecording(audio));
+    } catch (error) {
+      console.warn('Could not decode audio for the waveform:', error);
+      if (this.waveformSource !== audio) return;
+      this.waveformSelectionLabel.textContent =
+        'Không thể hiển thị dạng sóng của tệp này.';
+    }
+  }
+
+  /** Shows a recording's levels, if it is still the one in the player. */
+  private showWaveformLevels(audio: Blob, analysis: RecordingLevels): void {
+    if (this.waveformSource !== audio || this.waveformLevels) return;
+    // Copied out so the decoded samples are not kept alive.
+    this.waveformLevels = {
+      levels: analysis.levels,
+      duration: analysis.duration,
+    };
+    this.waveformEditor.load(this.waveformLevels);
+    this.waveformEditor.setCuts(this.currentNote?.cutRegions || []);
+    this.waveformEditor.setPlayhead(this.noteAudio.currentTime);
+    this.updateWaveformControls();
+  }
+
+  private updateWaveformControls(): void {
+    const selection = this.waveformEditor.selection;
+    const isBusy =
+      this.isEditingAudio || this.isRecording || !!this.activeStream;
+    const hasSegments = !!this.currentNote?.segments?.length;
+    this.retranscribeRegionButton.disabled =
+      !selection || isBusy || !hasSegments;
+    this.retranscribeRegionButton.title = hasSegments
+      ? 'Phiên âm lại vùng chọn và thay phần tương ứng trong bản thô'
+      : 'Chỉ dùng được khi bản thô có mốc thời gian';
+    this.cutRegionButton.disabled = !selection || isBusy;
+    this.clearSelectionButton.disabled = !selection;
+    if (!this.waveformEditor.isLoaded) return;
+    this.waveformSelectionLabel.textContent = selection
+      ? `Vùng chọn: ${formatTimestamp(selection.start)} – ${formatTimestamp(selection.end)}`
+      : 'Kéo trên dạng sóng để chọn một vùng';
+  }
+
+  /**
+   * Transcribes the selected part of the recording again and puts the result
+   * in place of the transcript segments spoken in that part.
+   */
+  private async retranscribeSelection(): Promise<void> {
+    const note = this.currentNote;
+    const audio = this.playerAudio;
+    const region = this.waveformEditor.selection;
+    if (!note?.segments?.length || !audio || !region) return;
+    if (this.isEditingAudio || this.isRecording) return;
+
+    const stream = this.beginStream();
+    this.isEditingAudio = true;
+    this.updateWaveformControls();
+    this.recordingStatus.textContent = `Đang phiên âm lại ${formatTimestamp(region.start)} – ${formatTimestamp(region.end)}...`;
+    try {
+      // Parts already cut out are not sent again.
+      const regions = excludeRanges([region], note.cutRegions || []);
+      if (regions.length === 0) {
+        this.recordingStatus.textContent = 'Vùng chọn đã bị cắt khỏi bản ghi.';
+        return;
+      }
+      const analysis = await this.getEditSamples(audio);
+      stream.throwIfCancelled();
+      const {sampleRate} = analysis;
+      const chunks = chunkSamples(joinRegions(analysis, regions), sampleRate);
+      const results: TranscriptResult[] = [];
+      for (const chunk of chunks) {
+        const result = await withRetry(
+          () => this.requestTranscription(note, chunk.blob, stream, () => {}),
+          TRANSCRIPTION_ATTEMPTS,
+          RETRY_BASE_DELAY_MS,
+        );
+        results.push(offsetTranscript(result, chunk.offset));
+      }
+      const merged = restoreOriginalTimes(mergeTranscripts(results), regions);
+      // Plain text without timing still replaces the region, as one segment.
+      const replacement =
+        merged.segments.length > 0 || !merged.text.trim()
+          ? merged.segments
+          : [{start: region.start, end: region.end, text: merged.text.trim()}];
+
+      note.segments = replaceTranscriptRange(
+        note.segments,
+        region,
+        replacement,
+      );
+      note.rawTranscription = segmentsToText(note.segments, note.speakerNames);
+      if (note === this.currentNote) {
+        this.renderCurrentRawTranscription();
+        this.showTab('raw');
+      }
+      this.persistNote(note);
+      this.recordingStatus.textContent =
+        'Đã phiên âm lại vùng chọn. Trau chuốt lại để cập nhật ghi chú.';
+    } catch (error) {
+      if (error instanceof StreamCancelledError) {
+        this.recordingStatus.textContent = 'Đã hủy phiên âm lại vùng chọn.';
+        return;
+      }
+      console.error('Error re-transcribing region:', error);
+      this.recordingStatus.textContent =
+        'Lỗi phiên âm lại vùng chọn. Vui lòng thử lại.';
+    } finally {
+      this.isEditingAudio = false;
+      this.endStream(stream);
+      this.updateWaveformControls();
+    }
+  }
+
+  /**
+   * Decodes the player's recording for a region edit, reusing the samples
+   * from a recent edit. They are dropped after EDIT_SAMPLES_TTL_MS without
+   * edits, or when another recording is loaded, so they do not stay in
+   * memory while the note is open.
+   */
+  private async getEditSamples(audio: Blob): Promise<RecordingAnalysis> {
+    if (this.editSamples?.audio !== audio) {
+      this.editSamples = {audio, analysis: await analyzeRecording(audio)};
+    }
+    const {analysis} = this.editSamples;
+    if (this.editSamplesTimeoutId) clearTimeout(this.editSamplesTimeoutId);
+    this.editSamplesTimeoutId = window.setTimeout(() => {
+      this.editSamplesTimeoutId = null;
+      this.editSamples = null;
+    }, EDIT_SAMPLES_TTL_MS);
+    return analysis;
+  }
+
+  /**
+   * Cuts the selected part out of the note: playback skips it, it is left
+   * out when transcribing again, and its transcript segments are removed.
+   * The saved recording itself is kept as recorded.
+   */
+  private cutSelection(): void {
+    const note = this.currentNote;
+    const region = this.waveformEditor.selection;
+    if (!note || !this.playerAudio || !region) return;
+    if (this.isEditingAudio || this.isRecording || this.activeStream) return;
+    const label = `${formatTimestamp(region.start)} – ${formatTimestamp(region.end)}`;
+    const hasSegments = !!note.segments?.length;
+    if (
+      !window.confirm(
+        `Cắt đoạn ${label}? Đoạn này sẽ bị bỏ qua khi phát và khi phiên âm lại${hasSegments ? ', và phần tương ứng trong bản thô sẽ bị xóa' : ''}. Tệp ghi âm gốc được giữ nguyên.`,
+      )
+    ) {
+      return;
+    }
+
+    note.cutRegions = addRange(note.cutRegions || [], region);
+    if (note.segments?.length) {
+      note.segments = removeTranscriptRange(note.segments, region);
+      note.rawTranscription = segmentsToText(note.segments, note.speakerNames);
+      this.renderCurrentRawTranscription();
+    }
+    this.waveformEditor.setCuts(note.cutRegions);
+    this.waveformEditor.setSelection(null);
+    this.persistNote(note);
+    this.recordingStatus.textContent = hasSegments
+      ? `Đã cắt đoạn ${label} khỏi bản ghi và bản thô.`
+      : `Đã cắt đoạn ${label} khỏi bản ghi. Bản thô không có mốc thời gian nên được giữ nguyên.`;
+  }
+
+  /**
+   * Jumps playback over a part of the recording that was cut out. Checked
+   * on timeupdate, so the first fraction of a second may still be heard.
+   */
+  private skipCutRegion(): void {
+    if (this.noteAudio.paused) return;
+    const time = this.noteAudio.currentTime;
+    const cut = this.currentNote?.cutRegions?.find(
+      (range) => time >= range.start && time < range.end,
+    );
+    if (cut) this.noteAudio.currentTime = cut.end;
+  }
+
+  private updatePlayPauseIcon(): void {
+    const icon = this.playPauseButton.querySelector('i');
+    if (!icon) return;
+    const isPlaying = !this.noteAudio.paused && !this.noteAudio.ended;
+    icon.classList.toggle('fa-play', !isPlaying);
+    icon.classList.toggle('fa-pause', isPlaying);
+    this.playPauseButton.title = isPlaying ? 'Tạm dừng' : 'Phát';
+  }
+
+  private updateAudioProgress(): void {
+    const duration = this.noteAudio.duration;
+    const current = this.noteAudio.currentTime;
+    const hasDuration = isFinite(duration) && duration > 0;
+
+    this.audioCurrentTime.textContent = formatTimestamp(
+      hasDuration ? Math.min(current, duration) : 0,
+    );
+    this.audioDuration.textContent = hasDuration
+      ? formatTimestamp(duration)
+      : '--:--';
+    this.audioSeekBar.value = hasDuration
+      ? String(Math.round((current / duration) * 1000))
+      : '0';
+  }
+
+  private startRenamingNote(item: HTMLLIElement, note: Note): void {
+    const input = document.createElement('input');
+    input.className = 'note-list-rename';
+    input.value = note.title;
+    input.placeholder = 'Ghi chú không tiêu đề';
+
+    let done = false;
+    const finish = (commit: boolean) => {
+      if (done) return;
+      done = true;
+      if (commit && input.value.trim() !== note.title) {
+        this.renameNote(note.id, input.value);
+      } else {
+        this.renderNoteList();
+      }
+    };
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') finish(true);
+      else if (e.key === 'Escape') finish(false);
+    });
+    input.addEventListener('blur', () => finish(true));
+
+    item.innerHTML = '';
+    item.appendChild(input);
+    input.focus();
+    input.select();
+  }
 }
 
 document.addEventListener('DOMContentLoaded', () => {
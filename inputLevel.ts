@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+export interface InputLevel {
+  // Both from 0 to 1 of full scale.
+  rms: number;
+  peak: number;
+}
+
+export type InputWarning = 'silent' | 'clipping';
+
+export const INPUT_WARNING_MESSAGES: Record<InputWarning, string> = {
+  silent: 'Không nghe thấy âm thanh. Kiểm tra micrô đã bật và đúng thiết bị.',
+  clipping: 'Âm thanh quá lớn, bản ghi có thể bị rè. Hãy để micrô xa hơn.',
+};
+
+// Below roughly -40 dBFS counts as silence.
+const SILENCE_RMS = 0.01;
+const SILENCE_WARNING_MS = 4000;
+const CLIPPING_PEAK = 0.98;
+// Keep a clipping warning up long enough to be read.
+const CLIPPING_HOLD_MS = 2000;
+const METER_FLOOR_DB = -60;
+
+/** Reads the current level from an analyser's time-domain data. */
+export function measureInputLevel(
+  analyser: AnalyserNode,
+  buffer: Uint8Array,
+): InputLevel {
+  analyser.getByteTimeDomainData(buffer);
+  let sumSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    const sample = (buffer[i] - 128) / 128;
+    sumSquares += sample * sample;
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  return {rms: Math.sqrt(sumSquares / buffer.length), peak};
+}
+
+/** Maps a level to a 0–1 meter position on a decibel scale. */
+export function levelToMeterFraction(level: InputLevel): number {
+  if (level.rms <= 0) return 0;
+  const db = 20 * Math.log10(level.rms);
+  return Math.min(1, Math.max(0, 1 - db / METER_FLOOR_DB));
+}
+
+/**
+ * Decides when to warn about the input during a recording: after a few
+ * seconds of silence, or right away when the signal clips.
+ */
+export class InputLevelWatcher {
+  private quietSince: number | null = null;
+  private lastClipAt = -Infinity;
+
+  update(level: InputLevel, now: number): InputWarning | null {
+    if (level.peak >= CLIPPING_PEAK) this.lastClipAt = now;
+    if (level.rms >= SILENCE_RMS) {
+      this.quietSince = null;
+    } else if (this.quietSince === null) {
+      this.quietSince = now;
+    }
+
+    if (now - this.lastClipAt < CLIPPING_HOLD_MS) return 'clipping';
+    if (
+      this.quietSince !== null &&
+      now - this.quietSince >= SILENCE_WARNING_MS
+    ) {
+      return 'silent';
+    }
+    return null;
+  }
+
+  reset(): void {
+    this.quietSince = null;
+    this.lastClipAt = -Infinity;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+export interface Language {
+  code: string;
+  // Label shown in the (Vietnamese) UI.
+  label: string;
+  // Name used in prompts, which are written in English.
+  promptName: string;
+}
+
+// Special values for the language settings.
+export const AUTO_DETECT_LANGUAGE = 'auto';
+export const SAME_AS_TRANSCRIPT_LANGUAGE = 'same';
+
+export const LANGUAGES: Language[] = [
+  {code: 'vi', label: 'Tiếng Việt', promptName: 'Vietnamese'},
+  {code: 'en', label: 'Tiếng Anh', promptName: 'English'},
+  {code: 'zh', label: 'Tiếng Trung', promptName: 'Chinese (Simplified)'},
+  {code: 'ja', label: 'Tiếng Nhật', promptName: 'Japanese'},
+  {code: 'ko', label: 'Tiếng Hàn', promptName: 'Korean'},
+  {code: 'fr', label: 'Tiếng Pháp', promptName: 'French'},
+  {code: 'de', label: 'Tiếng Đức', promptName: 'German'},
+  {code: 'es', label: 'Tiếng Tây Ban Nha', promptName: 'Spanish'},
+  {code: 'ru', label: 'Tiếng Nga', promptName: 'Russian'},
+  {code: 'th', label: 'Tiếng Thái', promptName: 'Thai'},
+];
+
+export function findLanguage(code: string | undefined): Language | undefined {
+  return LANGUAGES.find((language) => language.code === code);
+}
+
+/** Prompt sentence telling the model which language the audio is in. */
+export function describeTranscriptionLanguage(code: string): string {
+  const language = findLanguage(code);
+  if (!language) {
+    return 'Detect the language(s) spoken and transcribe them exactly as spoken. Do not translate.';
+  }
+  return `The audio is in ${language.promptName}. Transcribe it in ${language.promptName}, exactly as spoken. Do not translate.`;
+}
+
+/** Prompt sentence telling the model which language to write the note in. */
+export function describeOutputLanguage(code: string): string {
+  const language = findLanguage(code);
+  if (!language) {
+    return 'Write the note in the same language as the raw transcription.';
+  }
+  return `Write the note in ${language.promptName}, translating from the transcription if necessary.`;
+}
+
+export function buildTranslationPrompt(
+  markdown: string,
+  languageCode: string,
+): string {
+  const language = findLanguage(languageCode);
+  const name = language?.promptName || languageCode;
+  return `Translate the following markdown note into ${name}.
+Keep the markdown structure (headings, lists, checkboxes, emphasis) exactly as it is.
+Keep personal names, product names and code unchanged. Reply with the translated markdown only.
+
+Note:
+${markdown}`;
+}
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// How often MediaRecorder hands over data while live transcription is on.
+export const LIVE_TIMESLICE_MS = 4000;
+
+// WebM clusters and fragmented-MP4 `moof` boxes are the points where a
+// recording can be cut into independently decodable pieces.
+const WEBM_CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+const MP4_MOOF_TYPE = [0x6d, 0x6f, 0x6f, 0x66];
+
+function indexOfBytes(
+  bytes: Uint8Array,
+  pattern: number[],
+  from: number,
+): number {
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * Re-splits MediaRecorder output into standalone files. Only the first chunk
+ * of a recording carries the container header, and timeslice chunks end in
+ * the middle of a cluster, so the bytes are cut at fragment boundaries
+ * instead and the header is prepended to every piece.
+ */
+class FragmentSplitter {
+  private header: Uint8Array | null = null;
+  // Bytes from the start of the oldest fragment not yet taken.
+  private pending = new Uint8Array(0);
+  private isMp4: boolean;
+
+  constructor(private mimeType: string) {
+    this.isMp4 = mimeType.includes('mp4');
+  }
+
+  // False once it is clear the format has no fragments to cut at.
+  get isSupported(): boolean {
+    return this.header !== null || this.pending.length < 1024 * 1024;
+  }
+
+  push(bytes: Uint8Array): void {
+    this.pending = concatBytes(this.pending, bytes);
+    if (this.header) return;
+    const start = this.findFragmentStart(0);
+    if (start <= 0) return;
+    this.header = this.pending.slice(0, start);
+    this.pending = this.pending.slice(start);
+  }
+
+  /** Takes every fragment that is complete, as one file. */
+  takeClosed(): Blob | null {
+    if (!this.header) return null;
+    let last = -1;
+    for (let i = this.findFragmentStart(1); i > 0;) {
+      last = i;
+      i = this.findFragmentStart(i + 1);
+    }
+    if (last <= 0) return null;
+    const closed = this.pending.slice(0, last);
+    this.pending = this.pending.slice(last);
+    return new Blob([this.header, closed], {type: this.mimeType});
+  }
+
+  /** The fragment still being recorded, as a file. */
+  peekOpen(): Blob | null {
+    if (!this.header || this.pending.length === 0) return null;
+    return new Blob([this.header, this.pending], {type: this.mimeType});
+  }
+
+  private findFragmentStart(from: number): number {
+    if (this.isMp4) {
+      // The box type follows its four-byte size.
+      const index = indexOfBytes(
+        this.pending,
+        MP4_MOOF_TYPE,
+        Math.max(from + 4, 4),
+      );
+      return index === -1 ? -1 : index - 4;
+    }
+    return indexOfBytes(this.pending, WEBM_CLUSTER_ID, from);
+  }
+}
+
+/**
+ * Transcribes a recording while it is being made. Each fragment is sent once
+ * it is complete; the one still being recorded is re-sent as it grows, so the
+ * provisional text keeps up with the speaker. Requests run one at a time and
+ * failures are only logged — the full recording is transcribed on stop.
+ */
+export class LiveTranscriber {
+  private splitter: FragmentSplitter;
+  private reading = Promise.resolve();
+  private busy = false;
+  private stopped = false;
+  private committedText: string[] = [];
+  private openText = '';
+  // Bumped on every chunk, so the open fragment is only re-sent when it grew.
+  private version = 0;
+  private sentVersion = 0;
+
+  constructor(
+    mimeType: string,
+    private transcribe: (slice: Blob) => Promise<string>,
+    private onUpdate: (text: string) => void,
+  ) {
+    this.splitter = new FragmentSplitter(mimeType);
+  }
+
+  get isSupported(): boolean {
+    return this.splitter.isSupported;
+  }
+
+  addChunk(chunk: Blob): void {
+    if (this.stopped) return;
+    this.reading = this.reading
+      .then(() => chunk.arrayBuffer())
+      .then((buffer) => {
+        this.splitter.push(new Uint8Array(buffer));
+        this.version++;
+      })
+      .catch((e) => console.warn('Could not read recorded chunk', e));
+    this.process();
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private async process(): Promise<void> {
+    if (this.busy) return;
+    this.busy = true;
+    try {
+      while (!this.stopped) {
+        await this.reading;
+        const closed = this.splitter.takeClosed();
+        if (closed) {
+          const text = await this.transcribe(closed);
+          if (this.stopped) return;
+          if (text) this.committedText.push(text);
+          this.openText = '';
+          this.emit();
+          continue;
+        }
+
+        const open = this.splitter.peekOpen();
+        if (!open || this.version === this.sentVersion) break;
+        const version = this.version;
+        const text = await this.transcribe(open);
+        if (this.stopped) return;
+        this.sentVersion = version;
+        this.openText = text;
+        this.emit();
+      }
+    } catch (error) {
+      console.warn('Live transcription request failed:', error);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private emit(): void {
+    this.onUpdate([...this.committedText, this.openText].join(' ').trim());
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Audio and video formats Gemini accepts as inline data, with the file
+// extension used when importing by name or downloading a note's audio.
+export const MEDIA_FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/aac': 'aac',
+  'audio/aiff': 'aiff',
+  'audio/flac': 'flac',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'video/mpeg': 'mpeg',
+  'video/x-msvideo': 'avi',
+  'video/3gpp': '3gp',
+};
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  webm: 'audio/webm',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  aac: 'audio/aac',
+  aif: 'audio/aiff',
+  aiff: 'audio/aiff',
+  flac: 'audio/flac',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  mpeg: 'video/mpeg',
+  mpg: 'video/mpeg',
+  avi: 'video/x-msvideo',
+  '3gp': 'video/3gpp',
+};
+
+// Large files are decoded in memory and split into chunks before upload
+// (see audioChunking.ts); this cap keeps decoding within browser limits.
+export const MAX_IMPORT_FILE_BYTES = 200 * 1024 * 1024;
+
+export function getFileExtension(mimeType: string): string {
+  return MEDIA_FILE_EXTENSIONS[mimeType.split(';')[0].trim()] || 'webm';
+}
+
+/**
+ * Works out the MIME type to send for an imported file. Browsers leave
+ * `File.type` empty for some formats (notably .m4a and .opus on Windows), so
+ * the extension is used as a fallback. Returns null for unsupported files.
+ */
+export function resolveImportMimeType(file: File): string | null {
+  const type = file.type.split(';')[0].trim().toLowerCase();
+  if (type && MEDIA_FILE_EXTENSIONS[type]) return type;
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_MIME_TYPES[extension] || null;
+}
+
+/** Returns a user-facing error for files that cannot be imported. */
+export function validateImportFile(file: File): string | null {
+  if (!resolveImportMimeType(file)) {
+    const extension = file.name.includes('.')
+      ? `.${file.name.split('.').pop()}`
+      : file.type || 'không rõ';
+    return `Định dạng ${extension} không được hỗ trợ. Hãy dùng tệp âm thanh (MP3, M4A, WAV, OGG, WEBM, FLAC, AAC) hoặc video (MP4, MOV, WEBM).`;
+  }
+  if (file.size === 0) {
+    return 'Tệp trống, không có dữ liệu âm thanh.';
+  }
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    const sizeMb = (file.size / (1024 * 1024)).toFixed(1);
+    const maxMb = MAX_IMPORT_FILE_BYTES / (1024 * 1024);
+    return `Tệp quá lớn (${sizeMb} MB). Kích thước tối đa là ${maxMb} MB.`;
+  }
+  return null;
+}
+
+/** Reads a blob as base64, for sending media inline with a request. */
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const reader = new FileReader();
+  const readResult = new Promise<string>((resolve, reject) => {
+    reader.onloadend = () => {
+      try {
+        const base64data = reader.result as string;
+        resolve(base64data.split(',')[1]);
+      } catch (err) {
+        reject(err);
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+  });
+  reader.readAsDataURL(blob);
+  const base64Audio = await readResult;
+
+  if (!base64Audio)
+    throw new Error('Không thể chuyển đổi âm thanh sang base64');
+  return base64Audio;
+}
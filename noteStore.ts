@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {PolishTemplate} from './templates';
+import type {Note} from './types';
+
+const DB_NAME = 'voice-notes';
+const DB_VERSION = 3;
+const NOTES_STORE = 'notes';
+// Recorded audio is kept out of the notes store so that listing notes does
+// not have to load every Blob. Entries are keyed by note id.
+const AUDIO_STORE = 'audio';
+const TEMPLATES_STORE = 'templates';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(NOTES_STORE)) {
+        const store = db.createObjectStore(NOTES_STORE, {keyPath: 'id'});
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        db.createObjectStore(AUDIO_STORE);
+      }
+      if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+        db.createObjectStore(TEMPLATES_STORE, {keyPath: 'id'});
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getStore(
+  name: string,
+  mode: IDBTransactionMode,
+): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+export async function getAllNotes(): Promise<Note[]> {
+  const store = await getStore(NOTES_STORE, 'readonly');
+  const notes = await promisifyRequest(store.getAll() as IDBRequest<Note[]>);
+  return notes.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getNote(id: string): Promise<Note | undefined> {
+  const store = await getStore(NOTES_STORE, 'readonly');
+  return promisifyRequest(store.get(id) as IDBRequest<Note | undefined>);
+}
+
+export async function saveNote(note: Note): Promise<void> {
+  const store = await getStore(NOTES_STORE, 'readwrite');
+  await promisifyRequest(store.put(note));
+}
+
+export async function deleteNote(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([NOTES_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(NOTES_STORE).delete(id);
+  tx.objectStore(AUDIO_STORE).delete(id);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function getNoteAudio(id: string): Promise<Blob | undefined> {
+  const store = await getStore(AUDIO_STORE, 'readonly');
+  return promisifyRequest(store.get(id) as IDBRequest<Blob | undefined>);
+}
+
+export async function saveNoteAudio(id: string, audio: Blob): Promise<void> {
+  const store = await getStore(AUDIO_STORE, 'readwrite');
+  await promisifyRequest(store.put(audio, id));
+}
+
+export async function getCustomTemplates(): Promise<PolishTemplate[]> {
+  const store = await getStore(TEMPLATES_STORE, 'readonly');
+  const templates = await promisifyRequest(
+    store.getAll() as IDBRequest<PolishTemplate[]>,
+  );
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveCustomTemplate(
+  template: PolishTemplate,
+): Promise<void> {
+  const store = await getStore(TEMPLATES_STORE, 'readwrite');
+  await promisifyRequest(store.put(template));
+}
+
+export async function deleteCustomTemplate(id: string): Promise<void> {
+  const store = await getStore(TEMPLATES_STORE, 'readwrite');
+  await promisifyRequest(store.delete(id));
+}
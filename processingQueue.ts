@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {Note, NoteProcessingState} from './types';
+
+// Automatic retries back off from 30 seconds up to 8 minutes; after that a
+// recording waits in the queue for a manual retry.
+export const QUEUE_MAX_AUTO_RETRIES = 5;
+const QUEUE_RETRY_BASE_MS = 30 * 1000;
+
+export const PROCESSING_STATE_LABELS: Record<NoteProcessingState, string> = {
+  recorded: 'Chờ xử lý',
+  transcribing: 'Đang phiên âm',
+  polishing: 'Đang trau chuốt',
+  done: 'Hoàn tất',
+  failed: 'Lỗi',
+};
+
+/** Whether the note belongs in the pending queue. */
+export function isPendingNote(note: Note): boolean {
+  return !!note.processingState && note.processingState !== 'done';
+}
+
+/** Whether the queue should retry the note on its own at `now`. */
+export function isRetryDue(note: Note, now: number): boolean {
+  return (
+    (note.processingState === 'recorded' ||
+      note.processingState === 'failed') &&
+    note.nextRetryAt !== undefined &&
+    note.nextRetryAt <= now
+  );
+}
+
+export function getNextRetryDelay(retryCount: number): number {
+  return QUEUE_RETRY_BASE_MS * 2 ** Math.max(0, retryCount - 1);
+}
+
+/** Short Vietnamese description of where a pending note stands. */
+export function describePendingNote(note: Note, isOnline: boolean): string {
+  const state = note.processingState || 'done';
+  if (state !== 'failed' && state !== 'recorded') {
+    return PROCESSING_STATE_LABELS[state];
+  }
+  const isPolishStep = note.resumeStep === 'polishing';
+  const label =
+    state === 'failed'
+      ? isPolishStep
+        ? 'Lỗi trau chuốt'
+        : 'Lỗi phiên âm'
+      : isPolishStep
+        ? 'Chờ trau chuốt'
+        : PROCESSING_STATE_LABELS[state];
+  if (note.nextRetryAt === undefined) {
+    return `${label} · chờ thử lại thủ công`;
+  }
+  if (!isOnline) return `${label} · chờ kết nối mạng`;
+  const time = new Date(Math.max(note.nextRetryAt, Date.now()));
+  return `${label} · tự thử lại lúc ${time.toLocaleTimeString('vi-VN', {
+    hour: '2-digit',
+    minute: '2-digit',
+  })}`;
+}
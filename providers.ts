@@ -0,0 +1,425 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {GoogleGenAI, Type} from '@google/genai';
+import type {Content, GenerateContentConfig, Schema} from '@google/genai';
+import {AUTO_DETECT_LANGUAGE} from './languages';
+import {blobToBase64, getFileExtension} from './media';
+import {TRANSCRIPT_SCHEMA} from './transcript';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  // Model used for transcription and text generation.
+  model: string;
+  // Entered at runtime; the key built into the app is used when empty.
+  geminiApiKey: string;
+  // OpenAI-compatible server, e.g. a local Whisper or llama.cpp server.
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  // Whisper-style endpoints take a separate model for /audio/transcriptions.
+  openaiTranscriptionModel: string;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'Máy chủ tương thích OpenAI',
+  mock: 'Giả lập (không gọi mạng)',
+};
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock',
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS.gemini,
+  geminiApiKey: '',
+  openaiBaseUrl: 'http://localhost:8080/v1',
+  openaiApiKey: '',
+  openaiTranscriptionModel: 'whisper-1',
+};
+
+const PROVIDER_SETTINGS_KEY = 'voiceNotes.provider';
+
+export function loadProviderSettings(): ProviderSettings {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(PROVIDER_SETTINGS_KEY) || '{}',
+    );
+    const settings = {...DEFAULT_PROVIDER_SETTINGS, ...stored};
+    if (!PROVIDER_LABELS[settings.provider as ProviderId]) {
+      return {...DEFAULT_PROVIDER_SETTINGS};
+    }
+    return settings;
+  } catch {
+    return {...DEFAULT_PROVIDER_SETTINGS};
+  }
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// The text of one streamed chunk. Gemini responses fit this shape as they are.
+export interface TextChunk {
+  text?: string;
+}
+
+export type TextStream = AsyncGenerator<TextChunk>;
+
+export interface TranscribeRequest {
+  audio: Blob;
+  mimeType: string;
+  // Instructions for providers that transcribe with a prompted model.
+  prompt: string;
+  languageCode: string;
+  // Glossary terms, for providers that take vocabulary hints separately.
+  vocabulary?: string[];
+  // Ask for timed segments as a JSON array (see TRANSCRIPT_SCHEMA) rather
+  // than plain text.
+  timed: boolean;
+}
+
+export interface ProviderMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface GenerateRequest {
+  // A single prompt is one user message; chat passes the whole conversation.
+  messages: ProviderMessage[];
+  systemInstruction?: string;
+  // Ask for a JSON reply of this shape. Providers without schema support
+  // only get JSON mode, so the prompt should describe the fields too.
+  responseSchema?: Schema;
+}
+
+/**
+ * A backend that turns audio into a transcript and prompts into text.
+ * Both calls stream their output so the UI can show it as it arrives.
+ */
+export interface AIProvider {
+  transcribe(request: TranscribeRequest): Promise<TextStream>;
+  generate(request: GenerateRequest): Promise<TextStream>;
+}
+
+export function promptMessages(prompt: string): ProviderMessage[] {
+  return [{role: 'user', text: prompt}];
+}
+
+/** Reads a whole stream, for callers that do not show partial output. */
+export async function readAllText(stream: TextStream): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk.text || '';
+  return text;
+}
+
+export function createProvider(
+  settings: ProviderSettings,
+  builtInGeminiKey: string | undefined,
+): AIProvider {
+  const model = settings.model.trim() || DEFAULT_MODELS[settings.provider];
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(settings, model);
+    case 'mock':
+      return new MockProvider();
+    default:
+      return new GeminiProvider(
+        settings.geminiApiKey.trim() || builtInGeminiKey,
+        model,
+      );
+  }
+}
+
+class GeminiProvider implements AIProvider {
+  private genAI: GoogleGenAI | null = null;
+
+  constructor(
+    private apiKey: string | undefined,
+    private model: string,
+  ) {}
+
+  // Created on first use: the SDK throws without a key, and the app must
+  // still start so one can be entered in Settings.
+  private get client(): GoogleGenAI {
+    if (!this.apiKey) {
+      throw new Error('Chưa có khóa API Gemini. Hãy nhập khóa trong Cài đặt.');
+    }
+    this.genAI ??= new GoogleGenAI({apiKey: this.apiKey});
+    return this.genAI;
+  }
+
+  async transcribe(request: TranscribeRequest): Promise<TextStream> {
+    return this.client.models.generateContentStream({
+      model: this.model,
+      contents: [
+        {text: request.prompt},
+        {
+          inlineData: {
+            mimeType: request.mimeType,
+            data: await blobToBase64(request.audio),
+          },
+        },
+      ],
+      config: request.timed
+        ? {
+            responseMimeType: 'application/json',
+            responseSchema: TRANSCRIPT_SCHEMA,
+          }
+        : undefined,
+    });
+  }
+
+  async generate(request: GenerateRequest): Promise<TextStream> {
+    const contents: Content[] = request.messages.map((message) => ({
+      role: message.role,
+      parts: [{text: message.text}],
+    }));
+    const config: GenerateContentConfig = {};
+    if (request.systemInstruction) {
+      config.systemInstruction = request.systemInstruction;
+    }
+    if (request.responseSchema) {
+      config.responseMimeType = 'application/json';
+      config.responseSchema = request.responseSchema;
+    }
+    return this.client.models.generateContentStream({
+      model: this.model,
+      contents,
+      config,
+    });
+  }
+}
+
+// One entry of a verbose_json transcription's "segments".
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Talks to any server implementing the OpenAI REST API: OpenAI itself, or a
+ * local whisper.cpp / llama.cpp / Ollama server. Transcription goes through
+ * /audio/transcriptions, which does not stream, so it arrives in one chunk.
+ */
+class OpenAICompatibleProvider implements AIProvider {
+  private baseUrl: string;
+
+  constructor(
+    private settings: ProviderSettings,
+    private model: string,
+  ) {
+    this.baseUrl = settings.openaiBaseUrl.trim().replace(/\/+$/, '');
+  }
+
+  async transcribe(request: TranscribeRequest): Promise<TextStream> {
+    const form = new FormData();
+    form.append(
+      'file',
+      request.audio,
+      `audio.${getFileExtension(request.mimeType)}`,
+    );
+    form.append(
+      'model',
+      this.settings.openaiTranscriptionModel.trim() ||
+        DEFAULT_PROVIDER_SETTINGS.openaiTranscriptionModel,
+    );
+    if (request.languageCode !== AUTO_DETECT_LANGUAGE) {
+      form.append('language', request.languageCode);
+    }
+    form.append('response_format', request.timed ? 'verbose_json' : 'json');
+    // Whisper reads its prompt as preceding text, which biases it towards
+    // these spellings.
+    if (request.vocabulary?.length) {
+      form.append('prompt', request.vocabulary.join(', '));
+    }
+
+    const response = await this.fetch('/audio/transcriptions', {
+      method: 'POST',
+      body: form,
+    });
+    const result = await response.json();
+    let text: string = result.text?.trim() || '';
+    // Whisper's segments carry timing but no speakers; the transcript parser
+    // accepts them as they are.
+    if (request.timed && Array.isArray(result.segments)) {
+      text = JSON.stringify(
+        result.segments.map((segment: WhisperSegment) => ({
+          start: segment.start,
+          end: segment.end,
+          text: String(segment.text || '').trim(),
+        })),
+      );
+    }
+    return singleChunk(text);
+  }
+
+  async generate(request: GenerateRequest): Promise<TextStream> {
+    const messages = request.messages.map((message) => ({
+      role: message.role === 'model' ? 'assistant' : 'user',
+      content: message.text,
+    }));
+    if (request.systemInstruction) {
+      messages.unshift({role: 'system', content: request.systemInstruction});
+    }
+    const response = await this.fetch('/chat/completions', {
+      method: 'POST',
+      headers: {'Content-Type': 'application/json'},
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        stream: true,
+        ...(request.responseSchema
+          ? {response_format: {type: 'json_object'}}
+          : {}),
+      }),
+    });
+    if (!response.body) throw new Error('Máy chủ không trả về dữ liệu.');
+    return readServerSentEvents(response.body);
+  }
+
+  private async fetch(path: string, init: RequestInit): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (this.settings.openaiApiKey.trim()) {
+      headers.set(
+        'Authorization',
+        `Bearer ${this.settings.openaiApiKey.trim()}`,
+      );
+    }
+    const response = await fetch(`${this.baseUrl}${path}`, {...init, headers});
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(
+        `${response.status} ${response.statusText}: ${detail.slice(0, 200)}`,
+      );
+    }
+    return response;
+  }
+}
+
+/** Yields the content deltas of a streamed chat completion. */
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): TextStream {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const {done, value} = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, {stream: true});
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice('data:'.length).trim();
+        if (!data) continue;
+        if (data === '[DONE]') return;
+        const event = JSON.parse(data);
+        const text = event.choices?.[0]?.delta?.content;
+        if (text) yield {text};
+      }
+    }
+  } finally {
+    // Also runs when the reader is cancelled, which closes the connection.
+    reader.cancel().catch(() => {});
+  }
+}
+
+async function* singleChunk(text: string): TextStream {
+  yield {text};
+}
+
+const MOCK_CHUNK_CHARS = 24;
+const MOCK_CHUNK_DELAY_MS = 40;
+
+/**
+ * Returns fixed, predictable output without any network access, for trying
+ * the app without an API key and for checking the UI by hand. Output is
+ * streamed in small pieces so progress and cancelling behave as usual.
+ */
+class MockProvider implements AIProvider {
+  async transcribe(request: TranscribeRequest): Promise<TextStream> {
+    const sizeKb = Math.max(1, Math.round(request.audio.size / 1024));
+    const segments = [
+      {
+        start: 0,
+        end: 4,
+        speaker: 'Speaker 1',
+        text: 'Đây là bản phiên âm thử nghiệm từ nhà cung cấp giả lập.',
+      },
+      {
+        start: 4,
+        end: 9,
+        speaker: 'Speaker 2',
+        text: `Đoạn âm thanh dài khoảng ${sizeKb} KB đã được nhận.`,
+      },
+    ];
+    const text = request.timed
+      ? JSON.stringify(segments)
+      : segments.map((segment) => segment.text).join(' ');
+    return streamSlowly(text);
+  }
+
+  async generate(request: GenerateRequest): Promise<TextStream> {
+    if (request.responseSchema) {
+      return streamSlowly(
+        JSON.stringify(sampleFromSchema(request.responseSchema)),
+      );
+    }
+    const lastMessage = request.messages[request.messages.length - 1];
+    // The part of a prompt that varies is usually its last paragraph: the
+    // raw transcription, the note to translate or the user's question.
+    const excerpt =
+      lastMessage?.text
+        .trim()
+        .split(/\n\s*\n/)
+        .pop()
+        ?.slice(0, 300) || '';
+    const text = `# Phản hồi thử nghiệm
+
+Đây là phản hồi giả lập cho yêu cầu dài ${lastMessage?.text.length || 0} ký tự.
+
+> ${excerpt.replace(/\n/g, ' ')}`;
+    return streamSlowly(text);
+  }
+}
+
+/** Builds a placeholder value of the given shape, one item per list. */
+function sampleFromSchema(schema: Schema): unknown {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const result: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        result[key] = sampleFromSchema(property);
+      }
+      return result;
+    }
+    case Type.ARRAY:
+      return schema.items ? [sampleFromSchema(schema.items)] : [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 1;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return schema.description ? `Mẫu: ${schema.description}` : 'Nội dung mẫu';
+  }
+}
+
+async function* streamSlowly(text: string): TextStream {
+  for (let i = 0; i < text.length; i += MOCK_CHUNK_CHARS) {
+    await new Promise((resolve) => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+    yield {text: text.slice(i, i + MOCK_CHUNK_CHARS)};
+  }
+}
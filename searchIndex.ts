@@ -0,0 +1,318 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {getPolishedMarkdown, markdownToPlainText} from './exporters';
+import type {Note} from './types';
+
+export type SearchField = 'title' | 'polished' | 'raw';
+
+export interface SearchSnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface SearchResult {
+  noteId: string;
+  score: number;
+  // Field the snippet was taken from; opening the result jumps there.
+  field: SearchField;
+  snippet: SearchSnippetPart[];
+  // Text of the match in its original spelling, used to find the passage in
+  // the rendered note.
+  matchText: string;
+}
+
+// Matches in titles count for more than matches buried in a transcript.
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  polished: 2,
+  raw: 1,
+};
+const FIELD_ORDER: SearchField[] = ['title', 'polished', 'raw'];
+const SNIPPET_CONTEXT_CHARS = 60;
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+interface FoldedText {
+  // Lowercase text with diacritics removed ("Đường" -> "duong").
+  folded: string;
+  // Index in the original text of each character in `folded`.
+  offsets: number[];
+}
+
+/**
+ * Folds text for accent-insensitive matching. Characters are folded one at a
+ * time so every folded character can be mapped back to the original text,
+ * which is what lets snippets highlight the accented spelling.
+ */
+function foldWithOffsets(text: string): FoldedText {
+  let folded = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = foldText(text[i]);
+    for (let j = 0; j < char.length; j++) offsets.push(i);
+    folded += char;
+  }
+  return {folded, offsets};
+}
+
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return foldText(text).match(TOKEN_PATTERN) || [];
+}
+
+interface IndexedDocument {
+  fields: Record<SearchField, string>;
+  folded: Record<SearchField, FoldedText>;
+}
+
+/**
+ * In-memory inverted index over the note library. Terms are stored folded,
+ * so "bao cao" and "báo cáo" find the same notes; queries that keep their
+ * accents rank exact spellings higher.
+ */
+export class SearchIndex {
+  // term -> note id -> number of occurrences per field
+  private postings = new Map<
+    string,
+    Map<string, Record<SearchField, number>>
+  >();
+  private documents = new Map<string, IndexedDocument>();
+
+  build(notes: Note[]): void {
+    this.postings.clear();
+    this.documents.clear();
+    for (const note of notes) this.update(note);
+  }
+
+  update(note: Note): void {
+    this.remove(note.id);
+    // Hand edits live in polishedHtml, so index what the user sees.
+    const polished = getPolishedMarkdown(note);
+    const fields: Record<SearchField, string> = {
+      title: note.title,
+      polished: polished ? markdownToPlainText(polished) : '',
+      raw: note.rawTranscription,
+    };
+    const folded = {} as Record<SearchField, FoldedText>;
+    for (const field of FIELD_ORDER) {
+      folded[field] = foldWithOffsets(fields[field]);
+      for (const term of folded[field].folded.match(TOKEN_PATTERN) || []) {
+        let notes = this.postings.get(term);
+        if (!notes) {
+          notes = new Map();
+          this.postings.set(term, notes);
+        }
+        let counts = notes.get(note.id);
+        if (!counts) {
+          counts = {title: 0, polished: 0, raw: 0};
+          notes.set(note.id, counts);
+        }
+        counts[field]++;
+      }
+    }
+    this.documents.set(note.id, {fields, folded});
+  }
+
+  remove(noteId: string): void {
+    const document = this.documents.get(noteId);
+    if (!document) return;
+    for (const field of FIELD_ORDER) {
+      for (const term of document.folded[field].folded.match(TOKEN_PATTERN) ||
+        []) {
+        const notes = this.postings.get(term);
+        notes?.delete(noteId);
+        if (notes && notes.size === 0) this.postings.delete(term);
+      }
+    }
+    this.documents.delete(noteId);
+  }
+
+  /**
+   * Returns notes containing every query term, best match first. The last
+   * term is matched as a prefix so results update while the user types.
+   */
+  search(query: string): SearchResult[] {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    terms.forEach((term, i) => {
+      const isPrefix = i === terms.length - 1;
+      const termScores = new Map<string, number>();
+      for (const [indexedTerm, notes] of this.postings) {
+        const matches = isPrefix
+          ? indexedTerm.startsWith(term)
+          : indexedTerm === term;
+        if (!matches) continue;
+        // Whole-word matches beat prefix matches.
+        const termWeight = indexedTerm === term ? 1 : 0.5;
+        for (const [noteId, counts] of notes) {
+          let score = 0;
+          for (const field of FIELD_ORDER) {
+            score += counts[field] * FIELD_WEIGHTS[field] * termWeight;
+          }
+          termScores.set(noteId, (termScores.get(noteId) || 0) + score);
+        }
+      }
+      if (!scores) {
+        scores = termScores;
+        return;
+      }
+      const combined = new Map<string, number>();
+      for (const [noteId, score] of scores) {
+        const termScore = termScores.get(noteId);
+        if (termScore) combined.set(noteId, score + termScore);
+      }
+      scores = combined;
+    });
+
+    const exactQuery = query.trim().toLowerCase();
+    const results: SearchResult[] = [];
+    for (const [noteId, score] of scores || new Map<string, number>()) {
+      const document = this.documents.get(noteId);
+      if (!document) continue;
+      const hasExactSpelling = FIELD_ORDER.some((field) =>
+        document.fields[field].toLowerCase().includes(exactQuery),
+      );
+      results.push({
+        noteId,
+        score: hasExactSpelling ? score * 2 : score,
+        ...this.buildSnippet(document, terms),
+      });
+    }
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  private buildSnippet(
+    document: IndexedDocument,
+    terms: string[],
+  ): Pick<SearchResult, 'field' | 'snippet' | 'matchText'> {
+    // Prefer the note body for the snippet; the title is shown anyway.
+    const fields: SearchField[] = ['polished', 'raw', 'title'];
+    let best: {field: SearchField; ranges: MatchRange[]} | null = null;
+    let bestDistinct = 0;
+    for (const field of fields) {
+      const ranges = findTermRanges(document.folded[field], terms);
+      const distinct = new Set(ranges.map((range) => range.term)).size;
+      if (distinct > bestDistinct) {
+        best = {field, ranges};
+        bestDistinct = distinct;
+      }
+      if (distinct >= terms.length) break;
+    }
+    if (!best) return {field: 'title', snippet: [], matchText: ''};
+
+    const text = document.fields[best.field];
+    const {start: firstStart, end: firstEnd} = best.ranges[0];
+    let start = Math.max(0, firstStart - SNIPPET_CONTEXT_CHARS);
+    let end = Math.min(text.length, firstEnd + SNIPPET_CONTEXT_CHARS * 2);
+    // Avoid cutting words in half at the edges.
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      if (space !== -1 && space < firstStart) start = space + 1;
+    }
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      if (space > firstEnd) end = space;
+    }
+
+    const snippet: SearchSnippetPart[] = [];
+    const pushText = (value: string, highlighted: boolean) => {
+      const clean = value.replace(/\s+/g, ' ');
+      if (clean) snippet.push({text: clean, highlighted});
+    };
+    if (start > 0) pushText('…', false);
+    let cursor = start;
+    for (const {start: rangeStart, end: rangeEnd} of best.ranges) {
+      if (rangeStart < cursor || rangeEnd > end) continue;
+      pushText(text.slice(cursor, rangeStart), false);
+      pushText(text.slice(rangeStart, rangeEnd), true);
+      cursor = rangeEnd;
+    }
+    pushText(text.slice(cursor, end), false);
+    if (end < text.length) pushText('…', false);
+
+    return {
+      field: best.field,
+      snippet,
+      matchText: text.slice(firstStart, firstEnd),
+    };
+  }
+}
+
+interface MatchRange {
+  start: number;
+  end: number;
+  term: string;
+}
+
+/**
+ * Finds where the query terms occur in a field, as ranges in the original
+ * (accented) text. A term matches at the start of a word, so "hop" finds
+ * "họp" and "hợp đồng" but not "shop".
+ */
+function findTermRanges(text: FoldedText, terms: string[]): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  for (const match of text.folded.matchAll(TOKEN_PATTERN)) {
+    const word = match[0];
+    const term = terms.find((t) => word.startsWith(t));
+    if (!term) continue;
+    const start = match.index!;
+    const lastChar = start + term.length - 1;
+    ranges.push({
+      start: text.offsets[start],
+      end: text.offsets[lastChar] + 1,
+      term,
+    });
+  }
+  return ranges;
+}
+
+/**
+ * Finds a passage in rendered note content, ignoring accents and case, and
+ * returns it as a DOM range so it can be selected and scrolled into view.
+ */
+export function findTextRange(root: HTMLElement, text: string): Range | null {
+  const target = foldText(text);
+  if (!target) return null;
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  let content = '';
+  const nodeStarts: number[] = [];
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    nodes.push(node);
+    nodeStarts.push(content.length);
+    content += node.data;
+  }
+
+  const {folded, offsets} = foldWithOffsets(content);
+  const index = folded.indexOf(target);
+  if (index === -1) return null;
+  const start = offsets[index];
+  const end = offsets[index + target.length - 1] + 1;
+
+  const locate = (position: number): [Text, number] => {
+    let i = nodeStarts.length - 1;
+    while (i > 0 && nodeStarts[i] > position) i--;
+    return [nodes[i], position - nodeStarts[i]];
+  };
+  const range = document.createRange();
+  const [startNode, startOffset] = locate(start);
+  const [endNode, endOffset] = locate(end - 1);
+  range.setStart(startNode, startOffset);
+  range.setEnd(endNode, endOffset + 1);
+  return range;
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Recording and prompt preferences. Provider and model settings live in
+// providers.ts alongside the backends they configure.
+export interface AppSettings {
+  // Empty for the system default microphone.
+  inputDeviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  // Cut silence from recordings before they are transcribed, and whether to
+  // show the cuts for adjusting first.
+  trimSilence: boolean;
+  reviewTrim: boolean;
+  // Replaces the built-in "Ghi chú" template's instructions when not empty.
+  defaultPolishPrompt: string;
+}
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  inputDeviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  trimSilence: true,
+  reviewTrim: true,
+  defaultPolishPrompt: '',
+};
+
+const APP_SETTINGS_KEY = 'voiceNotes.settings';
+
+export function loadAppSettings(): AppSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(APP_SETTINGS_KEY) || '{}');
+    return {...DEFAULT_APP_SETTINGS, ...stored};
+  } catch {
+    return {...DEFAULT_APP_SETTINGS};
+  }
+}
+
+export function saveAppSettings(settings: AppSettings): void {
+  localStorage.setItem(APP_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function buildAudioConstraints(
+  settings: AppSettings,
+): MediaTrackConstraints {
+  return {
+    ...(settings.inputDeviceId
+      ? {deviceId: {exact: settings.inputDeviceId}}
+      : {}),
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+/** Lists the microphones, with a readable name for unlabelled ones. */
+export async function getInputDevices(): Promise<
+  Array<{deviceId: string; label: string}>
+> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return (
+    devices
+      .filter((device) => device.kind === 'audioinput')
+      // "default" duplicates one of the real devices; empty ids are
+      // placeholders shown before access is granted.
+      .filter((device) => device.deviceId && device.deviceId !== 'default')
+      .map((device, i) => ({
+        deviceId: device.deviceId,
+        label: device.label || `Micrô ${i + 1}`,
+      }))
+  );
+}
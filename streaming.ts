@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {TextStream} from './providers';
+
+export class StreamCancelledError extends Error {
+  constructor() {
+    super('Stream cancelled');
+    this.name = 'StreamCancelledError';
+  }
+}
+
+/**
+ * Lets the user stop a streamed response part-way through. The SDK has no
+ * way to abort the underlying request, so cancelling stops reading it and
+ * rejects the pending read straight away instead of waiting for the next
+ * chunk to arrive.
+ */
+export class StreamController {
+  cancelled = false;
+  // False when the stream was dropped for another reason, such as the user
+  // opening a different note.
+  cancelledByUser = false;
+  private cancelHandlers: Array<() => void> = [];
+
+  cancel(byUser = false): void {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.cancelledByUser = byUser;
+    this.cancelHandlers.forEach((handler) => handler());
+    this.cancelHandlers = [];
+  }
+
+  throwIfCancelled(): void {
+    if (this.cancelled) throw new StreamCancelledError();
+  }
+
+  /**
+   * Reads a streamed response to the end, calling `onText` with the text
+   * received so far after every chunk. Resolves to the full text.
+   */
+  async readText(
+    stream: TextStream,
+    onText: (text: string) => void,
+  ): Promise<string> {
+    this.throwIfCancelled();
+    let onCancel = () => {};
+    const cancelled = new Promise<never>((_, reject) => {
+      onCancel = () => reject(new StreamCancelledError());
+    });
+    this.cancelHandlers.push(onCancel);
+    // Avoid an unhandled rejection when the stream finishes first.
+    cancelled.catch(() => {});
+
+    let text = '';
+    try {
+      while (true) {
+        const result = await Promise.race([stream.next(), cancelled]);
+        if (result.done) break;
+        text += result.value.text || '';
+        onText(text);
+      }
+    } catch (error) {
+      if (error instanceof StreamCancelledError) {
+        stream
+          .return(undefined)
+          .catch((e) => console.warn('Error closing stream', e));
+      }
+      throw error;
+    } finally {
+      this.cancelHandlers = this.cancelHandlers.filter((h) => h !== onCancel);
+    }
+    return text;
+  }
+}
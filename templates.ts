@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+export interface PolishTemplate {
+  id: string;
+  name: string;
+  // Instructions sent to the model ahead of the raw transcription.
+  prompt: string;
+  builtIn?: boolean;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'note';
+
+export const BUILT_IN_TEMPLATES: PolishTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Ghi chú',
+    builtIn: true,
+    prompt: `Take this raw transcription and create a polished, well-formatted note.
+Remove filler words (um, uh, like), repetitions, and false starts.
+Format any lists or bullet points properly. Use markdown formatting for headings, lists, etc.
+Maintain all the original content and meaning.`,
+  },
+  {
+    id: 'meeting',
+    name: 'Biên bản cuộc họp',
+    builtIn: true,
+    prompt: `Turn this raw transcription of a meeting into meeting minutes in markdown.
+Start with a level-one heading naming the meeting topic.
+Then include these sections, each as a level-two heading:
+- Attendees: everyone who spoke or was mentioned as present.
+- Summary: a short paragraph on what the meeting covered.
+- Discussion: the main points, grouped by topic, as bullet lists.
+- Decisions: every decision that was made, one bullet each.
+- Action items: a checklist ("- [ ] ...") with the owner and due date for each item when they were mentioned.
+Leave out small talk and filler. Do not invent decisions or owners that were not stated.`,
+  },
+  {
+    id: 'lecture',
+    name: 'Tóm tắt bài giảng',
+    builtIn: true,
+    prompt: `Turn this raw transcription of a lecture or talk into study notes in markdown.
+Start with a level-one heading naming the subject.
+Then include these sections, each as a level-two heading:
+- Overview: two or three sentences on what the lecture covered.
+- Key concepts: each concept as a level-three heading with a concise explanation and any examples given.
+- Definitions: important terms and their meanings as a bullet list.
+- Takeaways: the most important points to remember.
+- Open questions: anything the speaker raised but left unanswered, if any.
+Keep the speaker's terminology and do not add material that was not in the lecture.`,
+  },
+  {
+    id: 'tasks',
+    name: 'Danh sách việc cần làm',
+    builtIn: true,
+    prompt: `Extract every task, to-do and commitment from this raw transcription.
+Start with a level-one heading summarising what the tasks are about.
+List the tasks as a markdown checklist ("- [ ] ..."), one task per line, phrased as a clear action starting with a verb.
+Add the owner and due date in parentheses after the task when they were mentioned.
+Group the tasks under level-two headings by project or topic if there is more than one.
+If nothing actionable was said, say so in one sentence.`,
+  },
+  {
+    id: 'email',
+    name: 'Bản nháp email',
+    builtIn: true,
+    prompt: `Turn this raw transcription into a ready-to-send email draft in markdown.
+Start with a level-one heading containing only the email subject line.
+Then write the email: a greeting, a clear and concise body organised into short paragraphs, any requests or next steps as a bullet list, and a polite closing.
+Use a professional but friendly tone. Keep every fact from the transcription and do not invent names, dates or commitments.`,
+  },
+];
+
+export interface PolishPromptOptions {
+  extraInstructions?: string;
+  // Sentence stating the output language, from describeOutputLanguage().
+  languageInstruction?: string;
+  // Preferred spellings, from describeGlossaryForPolish().
+  glossaryInstruction?: string;
+}
+
+export function buildPolishPrompt(
+  instructions: string,
+  rawTranscription: string,
+  options: PolishPromptOptions = {},
+): string {
+  const sections = [instructions.trim()];
+  if (options.languageInstruction) sections.push(options.languageInstruction);
+  if (options.glossaryInstruction) sections.push(options.glossaryInstruction);
+  if (options.extraInstructions?.trim()) {
+    sections.push(
+      `Additional instructions from the user (these take precedence):\n${options.extraInstructions.trim()}`,
+    );
+  }
+  return `${sections.join('\n\n')}
+
+Raw transcription:
+${rawTranscription}`;
+}
+
+/**
+ * Picks a title for a freshly polished note: its first heading, or else the
+ * first line long enough to be meaningful, cut to 60 characters.
+ */
+export function deriveNoteTitle(markdown: string): string | null {
+  const lines = markdown.split('\n').map((l) => l.trim());
+
+  for (const line of lines) {
+    if (line.startsWith('#')) {
+      const title = line.replace(/^#+\s+/, '').trim();
+      if (title) return title;
+    }
+  }
+
+  for (const line of lines) {
+    if (line.length === 0) continue;
+    let potentialTitle = line.replace(/^[\*_\`#\->\s\[\]\(.\d)]+/, '');
+    potentialTitle = potentialTitle.replace(/[\*_\`#]+$/, '');
+    potentialTitle = potentialTitle.trim();
+
+    if (potentialTitle.length > 3) {
+      const maxLength = 60;
+      return (
+        potentialTitle.substring(0, maxLength) +
+        (potentialTitle.length > maxLength ? '...' : '')
+      );
+    }
+  }
+  return null;
+}
@@ -0,0 +1,309 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Type} from '@google/genai';
+import type {Schema} from '@google/genai';
+import {describeTranscriptionLanguage} from './languages';
+import type {TimeRange, TranscriptSegment} from './types';
+
+export interface TranscriptResult {
+  text: string;
+  // Empty when the model's reply carried no recoverable timing.
+  segments: TranscriptSegment[];
+}
+
+const TRANSCRIPT_INSTRUCTIONS = `Generate a complete, detailed transcript of this audio.
+Split the transcript into segments of one or two sentences each, and start a new segment whenever the speaker changes.
+Identify the distinct speakers and label them consistently as "Speaker 1", "Speaker 2", and so on, in order of first appearance.
+For every segment, give its start and end time in seconds from the beginning of the audio, the speaker label, and the spoken text.
+Respond only with a JSON array of objects with the fields "start", "end", "speaker" and "text".`;
+
+// `glossaryInstruction` comes from describeGlossaryForTranscription().
+export function buildTranscriptPrompt(
+  languageCode: string,
+  glossaryInstruction = '',
+): string {
+  return [
+    TRANSCRIPT_INSTRUCTIONS,
+    describeTranscriptionLanguage(languageCode),
+    glossaryInstruction,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+// Live slices only need quick provisional text; timing and speakers come
+// from the full transcription once recording stops.
+export function buildLiveTranscriptPrompt(
+  languageCode: string,
+  glossaryInstruction = '',
+): string {
+  return [
+    `Transcribe the speech in this short audio clip verbatim.
+Reply with the transcript text only, with no labels, timestamps or commentary. If there is no speech, reply with nothing.`,
+    describeTranscriptionLanguage(languageCode),
+    glossaryInstruction,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+export const TRANSCRIPT_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      start: {type: Type.NUMBER, description: 'Start time in seconds'},
+      end: {type: Type.NUMBER, description: 'End time in seconds'},
+      speaker: {
+        type: Type.STRING,
+        description: 'Speaker label, e.g. Speaker 1',
+      },
+      text: {type: Type.STRING},
+    },
+    required: ['start', 'end', 'speaker', 'text'],
+    propertyOrdering: ['start', 'end', 'speaker', 'text'],
+  },
+};
+
+/**
+ * Parses a time value from model output. Accepts plain seconds (`12.5`,
+ * `"12.5"`, `"12.5s"`) and clock strings (`"01:02"`, `"1:02:03.4"`).
+ */
+export function parseTimeValue(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return isFinite(value) && value >= 0 ? value : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim().replace(/s$/i, '');
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+
+  const match = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:[.,]\d+)?)$/);
+  if (!match) return null;
+  const hours = Number(match[1] || 0);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3].replace(',', '.'));
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+function normalizeSpeakerLabel(value: unknown): string | undefined {
+  if (typeof value === 'number') return `Speaker ${value}`;
+  if (typeof value !== 'string') return undefined;
+  const label = value.trim();
+  if (!label) return undefined;
+  const numbered = label.match(/^(?:speaker|người nói|spk)\s*#?\s*(\d+)$/i);
+  return numbered ? `Speaker ${numbered[1]}` : label;
+}
+
+function normalizeSegments(candidates: unknown[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const candidate of candidates) {
+    if (!candidate || typeof candidate !== 'object') continue;
+    const entry = candidate as Record<string, unknown>;
+
+    const text = typeof entry.text === 'string' ? entry.text.trim() : '';
+    if (!text) continue;
+
+    const start = parseTimeValue(entry.start ?? entry.startTime) ?? 0;
+    const end = parseTimeValue(entry.end ?? entry.endTime) ?? start;
+    const speaker = normalizeSpeakerLabel(entry.speaker);
+    segments.push({
+      start,
+      end: Math.max(start, end),
+      text,
+      ...(speaker ? {speaker} : {}),
+    });
+  }
+
+  return segments.sort((a, b) => a.start - b.start);
+}
+
+function tryParseJsonArray(text: string): unknown[] | null {
+  const attempts = [text];
+  const first = text.indexOf('[');
+  const last = text.lastIndexOf(']');
+  if (first !== -1 && last > first) attempts.push(text.slice(first, last + 1));
+
+  for (const attempt of attempts) {
+    try {
+      const parsed = JSON.parse(attempt);
+      if (Array.isArray(parsed)) return parsed;
+      if (parsed && Array.isArray(parsed.segments)) return parsed.segments;
+    } catch {
+      // Fall through to the next, looser attempt.
+    }
+  }
+  return null;
+}
+
+const CLOCK_TIME = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?`;
+const TIMESTAMPED_LINE = new RegExp(
+  String.raw`^[\[(]?\s*(${CLOCK_TIME})\s*(?:(?:-->|[-–—]|to)\s*(${CLOCK_TIME}))?\s*[\])]?\s*[:\-–—]?\s*(.+)$`,
+);
+const SPEAKER_PREFIX = /^((?:speaker|người nói)\s*\d+)\s*:\s*(.+)$/i;
+
+function parseTimestampedLines(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(TIMESTAMPED_LINE);
+    if (!match) continue;
+    const start = parseTimeValue(match[1]);
+    if (start === null) continue;
+    const end = match[2] ? (parseTimeValue(match[2]) ?? start) : start;
+    const speakerMatch = match[3].match(SPEAKER_PREFIX);
+    const speaker = speakerMatch
+      ? normalizeSpeakerLabel(speakerMatch[1])
+      : undefined;
+    const text = (speakerMatch ? speakerMatch[2] : match[3]).trim();
+    segments.push({
+      start,
+      end: Math.max(start, end),
+      text,
+      ...(speaker ? {speaker} : {}),
+    });
+  }
+  return segments;
+}
+
+/**
+ * Turns the model's transcription response into segments. The response is
+ * expected to be a JSON array, but code fences, surrounding prose, truncated
+ * JSON and plain "[00:12] text" lines are tolerated. Returns an empty array
+ * when no timing information can be recovered.
+ */
+export function parseTranscriptSegments(text: string): TranscriptSegment[] {
+  const cleaned = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/```$/, '')
+    .trim();
+
+  const parsed = tryParseJsonArray(cleaned);
+  if (parsed) return normalizeSegments(parsed);
+
+  // Truncated JSON: salvage every complete object before the cut-off.
+  const objects = cleaned.match(/\{[^{}]*\}/g);
+  if (objects) {
+    const salvaged = objects.flatMap((obj) => {
+      try {
+        return [JSON.parse(obj)];
+      } catch {
+        return [];
+      }
+    });
+    const segments = normalizeSegments(salvaged);
+    if (segments.length > 0) return segments;
+  }
+
+  return parseTimestampedLines(cleaned);
+}
+
+/** Shifts a chunk's segment times by the chunk's offset in the recording. */
+export function offsetTranscript(
+  result: TranscriptResult,
+  offset: number,
+): TranscriptResult {
+  if (offset === 0) return result;
+  return {
+    text: result.text,
+    segments: result.segments.map((segment) => ({
+      ...segment,
+      start: segment.start + offset,
+      end: segment.end + offset,
+    })),
+  };
+}
+
+/**
+ * Stitches per-chunk transcripts back into one. Segments are only kept if
+ * every non-empty chunk produced them, so the timed view never silently
+ * drops the text of a chunk that came back as plain prose.
+ */
+export function mergeTranscripts(
+  results: TranscriptResult[],
+): TranscriptResult {
+  const nonEmpty = results.filter((result) => result.text.trim() !== '');
+  if (nonEmpty.every((result) => result.segments.length > 0)) {
+    const segments = nonEmpty.flatMap((result) => result.segments);
+    return {text: segmentsToText(segments), segments};
+  }
+  return {
+    text: nonEmpty.map((result) => result.text.trim()).join('\n'),
+    segments: [],
+  };
+}
+
+function isInRange(segment: TranscriptSegment, range: TimeRange): boolean {
+  const middle = (segment.start + segment.end) / 2;
+  return middle >= range.start && middle < range.end;
+}
+
+/**
+ * Swaps the segments spoken within `range` for a fresh transcription of it.
+ * A segment belongs to the range when most of it falls inside.
+ */
+export function replaceTranscriptRange(
+  segments: TranscriptSegment[],
+  range: TimeRange,
+  replacement: TranscriptSegment[],
+): TranscriptSegment[] {
+  return [
+    ...segments.filter((segment) => !isInRange(segment, range)),
+    ...replacement,
+  ].sort((a, b) => a.start - b.start);
+}
+
+/** Drops the segments spoken within `range`, once it has been cut out. */
+export function removeTranscriptRange(
+  segments: TranscriptSegment[],
+  range: TimeRange,
+): TranscriptSegment[] {
+  return segments.filter((segment) => !isInRange(segment, range));
+}
+
+export function getSpeakerName(
+  label: string,
+  speakerNames?: Record<string, string>,
+): string {
+  return speakerNames?.[label] || label;
+}
+
+/**
+ * Flattens segments into the plain-text transcript stored on the note. When
+ * speakers are known, each speaker turn is prefixed with their display name.
+ */
+export function segmentsToText(
+  segments: TranscriptSegment[],
+  speakerNames?: Record<string, string>,
+): string {
+  const lines: string[] = [];
+  let previousSpeaker: string | undefined;
+  for (const segment of segments) {
+    if (segment.speaker && segment.speaker !== previousSpeaker) {
+      lines.push(
+        `${getSpeakerName(segment.speaker, speakerNames)}: ${segment.text}`,
+      );
+    } else {
+      lines.push(segment.text);
+    }
+    previousSpeaker = segment.speaker;
+  }
+  return lines.join('\n');
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LEVEL_WINDOW_SECONDS, RecordingLevels, TrimPlan} from './audioTrimming';
+import {drawLevelBars, getCssColor, prepareCanvas} from './waveform';
+
+// How close, in pixels, a pointer must be to grab a trim handle.
+const HANDLE_HIT_PX = 10;
+// The handles cannot be dragged closer together than this.
+const MIN_KEPT_SECONDS = 0.5;
+
+/**
+ * A static waveform of a recording with the proposed cuts shaded. The start
+ * and end handles can be dragged, and clicking a cut inside the recording
+ * keeps or removes it again.
+ */
+export class TrimEditor {
+  private analysis: RecordingLevels | null = null;
+  private plan: TrimPlan | null = null;
+  private dragging: 'start' | 'end' | null = null;
+
+  constructor(
+    private canvas: HTMLCanvasElement,
+    private onChange: (plan: TrimPlan) => void,
+  ) {
+    this.canvas.addEventListener('pointerdown', (e) =>
+      this.handlePointerDown(e),
+    );
+    this.canvas.addEventListener('pointermove', (e) =>
+      this.handlePointerMove(e),
+    );
+    this.canvas.addEventListener('pointerup', () => (this.dragging = null));
+    this.canvas.addEventListener('pointercancel', () => (this.dragging = null));
+  }
+
+  load(analysis: RecordingLevels, plan: TrimPlan): void {
+    // Copied out so the decoded samples are not kept alive after the review.
+    this.analysis = {levels: analysis.levels, duration: analysis.duration};
+    this.plan = plan;
+    this.render();
+  }
+
+  render(): void {
+    const ctx = prepareCanvas(this.canvas);
+    const {analysis, plan} = this;
+    if (!ctx || !analysis || !plan) return;
+    const width = this.canvas.clientWidth;
+    const height = this.canvas.clientHeight;
+
+    const removedFill = getCssColor('--color-surface-hover', '#F0F0F0');
+    const keptColor = getCssColor('--color-accent', '#007AFF');
+    const removedColor = getCssColor('--color-text-tertiary', '#999999');
+    const isRemoved = (time: number) =>
+      time < plan.start ||
+      time > plan.end ||
+      plan.cuts.some((c) => c.enabled && time >= c.start && time < c.end);
+
+    ctx.fillStyle = removedFill;
+    ctx.fillRect(0, 0, this.toX(plan.start), height);
+    ctx.fillRect(this.toX(plan.end), 0, width - this.toX(plan.end), height);
+    for (const cut of plan.cuts) {
+      const x = this.toX(cut.start);
+      const cutWidth = Math.max(1, this.toX(cut.end) - x);
+      if (cut.enabled) {
+        ctx.fillRect(x, 0, cutWidth, height);
+      } else {
+        // A cut the user chose to keep stays outlined so it can be cut again.
+        ctx.strokeStyle = removedColor;
+        ctx.setLineDash([4, 4]);
+        ctx.strokeRect(x + 0.5, 0.5, cutWidth - 1, height - 1);
+        ctx.setLineDash([]);
+      }
+    }
+
+    drawLevelBars(
+      ctx,
+      analysis.levels,
+      0,
+      analysis.levels.length,
+      width,
+      height,
+      (window) =>
+        isRemoved(window * LEVEL_WINDOW_SECONDS) ? removedColor : keptColor,
+    );
+
+    ctx.fillStyle = keptColor;
+    for (const time of [plan.start, plan.end]) {
+      const x = Math.min(width - 2, Math.max(0, this.toX(time) - 1));
+      ctx.fillRect(x, 0, 3, height);
+      ctx.fillRect(x - 3, height / 2 - 10, 9, 20);
+    }
+  }
+
+  private toX(time: number): number {
+    const duration = this.analysis?.duration || 1;
+    return (time / duration) * this.canvas.clientWidth;
+  }
+
+  private toTime(clientX: number): number {
+    const rect = this.canvas.getBoundingClientRect();
+    const fraction = (clientX - rect.left) / rect.width;
+    const duration = this.analysis?.duration || 0;
+    return Math.min(duration, Math.max(0, fraction * duration));
+  }
+
+  private handlePointerDown(e: PointerEvent): void {
+    const plan = this.plan;
+    if (!plan) return;
+    const x = e.clientX - this.canvas.getBoundingClientRect().left;
+    if (Math.abs(x - this.toX(plan.start)) <= HANDLE_HIT_PX) {
+      this.dragging = 'start';
+    } else if (Math.abs(x - this.toX(plan.end)) <= HANDLE_HIT_PX) {
+      this.dragging = 'end';
+    }
+    if (this.dragging) {
+      this.canvas.setPointerCapture(e.pointerId);
+      return;
+    }
+
+    const time = this.toTime(e.clientX);
+    const cut = plan.cuts.find((c) => time >= c.start && time < c.end);
+    if (cut) {
+      cut.enabled = !cut.enabled;
+      this.render();
+      this.onChange(plan);
+    }
+  }
+
+  private handlePointerMove(e: PointerEvent): void {
+    const plan = this.plan;
+    if (!plan) return;
+    const x = e.clientX - this.canvas.getBoundingClientRect().left;
+    const nearHandle =
+      Math.abs(x - this.toX(plan.start)) <= HANDLE_HIT_PX ||
+      Math.abs(x - this.toX(plan.end)) <= HANDLE_HIT_PX;
+    this.canvas.style.cursor =
+      this.dragging || nearHandle ? 'ew-resize' : 'pointer';
+    if (!this.dragging) return;
+
+    // Handles stay within the recording and never cross, even when it is
+    // shorter than MIN_KEPT_SECONDS.
+    const time = this.toTime(e.clientX);
+    const duration = this.analysis?.duration || 0;
+    if (this.dragging === 'start') {
+      plan.start = Math.max(0, Math.min(time, plan.end - MIN_KEPT_SECONDS));
+    } else {
+      plan.end = Math.min(
+        duration,
+        Math.max(time, plan.start + MIN_KEPT_SECONDS),
+      );
+    }
+    this.render();
+    this.onChange(plan);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+export interface TranscriptSegment {
+  // Offsets in seconds from the start of the recording.
+  start: number;
+  end: number;
+  text: string;
+  // Stable diarization label from the model, e.g. "Speaker 1".
+  speaker?: string;
+}
+
+// A span of a recording, in seconds from its start.
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// A previous polished output, kept so it can be compared and restored.
+export interface PolishVersion {
+  polishedNote: string;
+  polishedHtml?: string;
+  templateId?: string;
+  extraInstructions?: string;
+  createdAt: number;
+}
+
+export interface NoteTranslation {
+  language: string;
+  polishedNote: string;
+  createdAt: number;
+}
+
+// Where a recording is in the transcribe-then-polish pipeline. Notes saved
+// before this was tracked have no state and count as done.
+export type NoteProcessingState =
+  | 'recorded'
+  | 'transcribing'
+  | 'polishing'
+  | 'done'
+  | 'failed';
+
+// One turn of the question-and-answer chat about a note.
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  createdAt: number;
+}
+
+// A to-do pulled out of a note by the extraction pass.
+export interface ActionItem {
+  id: string;
+  text: string;
+  owner?: string;
+  // As stated in the recording ("thứ Sáu", "2024-05-10"); not normalised.
+  dueDate?: string;
+  done: boolean;
+}
+
+export interface KeyDate {
+  date: string;
+  description: string;
+}
+
+// Recordings are transcribed and polished; digests are written from several
+// stored notes. Notes saved before kinds existed are recordings.
+export type NoteKind = 'recording' | 'digest';
+
+export interface Note {
+  id: string;
+  kind?: NoteKind;
+  title: string;
+  // Free-form folder name; notes in a folder share its glossary.
+  folder?: string;
+  rawTranscription: string;
+  // Timed breakdown of `rawTranscription`, when the model returned one.
+  segments?: TranscriptSegment[];
+  // Display names the user gave to diarization labels, keyed by label.
+  speakerNames?: Record<string, string>;
+  polishedNote: string;
+  // Set when the user edits the rendered polished note by hand; takes
+  // precedence over re-rendering `polishedNote` when the note is reopened.
+  polishedHtml?: string;
+  // Polish template the note was (or will be) polished with, and the
+  // instructions used last time so a deleted custom template can still be
+  // reproduced.
+  templateId?: string;
+  templatePrompt?: string;
+  // Extra instructions given for the current polished output, if any.
+  extraInstructions?: string;
+  // Earlier polished outputs, newest first.
+  polishHistory?: PolishVersion[];
+  // When the current polished output was generated.
+  polishedAt?: number;
+  // Translations of the polished note, keyed by language code.
+  translations?: Record<string, NoteTranslation>;
+  // Questions asked about the note and the model's answers, oldest first.
+  chatHistory?: ChatMessage[];
+  // MIME type of the recording kept in the audio store; unset when the note
+  // has no saved audio.
+  audioMimeType?: string;
+  // Parts of the saved recording that were sent for transcription, after
+  // silence trimming. Empty once it was decided to send the recording
+  // whole, and unset before any decision.
+  keptRegions?: TimeRange[];
+  // Parts cut out in the waveform editor, sorted and not overlapping. The
+  // saved recording is left intact; playback skips these parts and they are
+  // left out whenever the recording is transcribed again.
+  cutRegions?: TimeRange[];
+  processingState?: NoteProcessingState;
+  // Step to resume from on retry, and the error shown in the pending queue.
+  resumeStep?: 'transcribing' | 'polishing';
+  processingError?: string;
+  // Automatic retries so far, and when the next one is due. Unset once the
+  // retries run out or the user cancelled, leaving only a manual retry.
+  retryCount?: number;
+  nextRetryAt?: number;
+  // Structured fields from the extraction pass, and when it last ran.
+  actionItems?: ActionItem[];
+  decisions?: string[];
+  people?: string[];
+  keyDates?: KeyDate[];
+  tags?: string[];
+  extractedAt?: number;
+  // For digests: the notes it was written from, in the order they are cited,
+  // and the digest style used.
+  sourceNoteIds?: string[];
+  digestStyleId?: string;
+  timestamp: number;
+  updatedAt: number;
+}
@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LEVEL_WINDOW_SECONDS, RecordingLevels} from './audioTrimming';
+import {formatTimestamp} from './transcript';
+import type {TimeRange} from './types';
+
+export function getCssColor(name: string, fallback: string): string {
+  return (
+    getComputedStyle(document.documentElement).getPropertyValue(name).trim() ||
+    fallback
+  );
+}
+
+/**
+ * Sizes a canvas's backing store to its displayed size and returns a context
+ * that draws in CSS pixels.
+ */
+export function prepareCanvas(
+  canvas: HTMLCanvasElement,
+): CanvasRenderingContext2D | null {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = Math.round(canvas.clientWidth * dpr);
+  canvas.height = Math.round(canvas.clientHeight * dpr);
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+  return ctx;
+}
+
+/**
+ * Draws loudness levels as mirrored bars, one per pixel column, for the
+ * windows from `first` to `last`. Bars are scaled to the loudest window in
+ * the whole recording so zooming does not change their height.
+ * `colorAt` picks each column's colour from the time it covers.
+ */
+export function drawLevelBars(
+  ctx: CanvasRenderingContext2D,
+  levels: Float32Array,
+  first: number,
+  last: number,
+  width: number,
+  height: number,
+  colorAt: (window: number) => string,
+): void {
+  let max = 0;
+  for (let i = 0; i < levels.length; i++) max = Math.max(max, levels[i]);
+  if (max === 0 || last <= first) return;
+
+  const windowsPerColumn = (last - first) / width;
+  const middle = height / 2;
+  for (let x = 0; x < width; x++) {
+    const from = Math.floor(first + x * windowsPerColumn);
+    const to = Math.max(
+      from + 1,
+      Math.floor(first + (x + 1) * windowsPerColumn),
+    );
+    let peak = 0;
+    for (let i = from; i < to && i < levels.length; i++) {
+      peak = Math.max(peak, levels[i]);
+    }
+    // Square root scaling keeps quiet speech visible next to loud peaks.
+    const barHeight = Math.max(1, Math.sqrt(peak / max) * (height - 4));
+    ctx.fillStyle = colorAt(from);
+    ctx.fillRect(x, middle - barHeight / 2, 1, barHeight);
+  }
+}
+
+const MAX_ZOOM = 64;
+// A press that moves less than this is a click that seeks, not a selection.
+const DRAG_THRESHOLD_PX = 4;
+
+export interface WaveformEditorCallbacks {
+  onSeek: (time: number) => void;
+  onSelectionChange: (selection: TimeRange | null) => void;
+}
+
+/**
+ * The saved recording's waveform, with a playhead. Clicking seeks, dragging
+ * selects a region, and the view can be zoomed in and scrolled with the
+ * mouse wheel (Ctrl+wheel zooms around the pointer).
+ */
+export class WaveformEditor {
+  selection: TimeRange | null = null;
+  private analysis: RecordingLevels | null = null;
+  // Parts cut out of the recording, shaded and drawn muted.
+  private cuts: TimeRange[] = [];
+  private zoom = 1;
+  // Time at the left edge of the view, in seconds.
+  private viewStart = 0;
+  private playhead = 0;
+  private dragAnchor: {time: number; x: number} | null = null;
+
+  constructor(
+    private canvas: HTMLCanvasElement,
+    private callbacks: WaveformEditorCallbacks,
+  ) {
+    this.canvas.addEventListener('pointerdown', (e) => {
+      this.dragAnchor = {time: this.toTime(e.clientX), x: e.clientX};
+      this.canvas.setPointerCapture(e.pointerId);
+    });
+    this.canvas.addEventListener('pointermove', (e) => this.handleDrag(e));
+    this.canvas.addEventListener('pointerup', (e) => this.handleRelease(e));
+    this.canvas.addEventListener('pointercancel', () => {
+      this.dragAnchor = null;
+    });
+    this.canvas.addEventListener('wheel', (e) => this.handleWheel(e), {
+      passive: false,
+    });
+  }
+
+  get isLoaded(): boolean {
+    return this.analysis !== null;
+  }
+
+  get zoomLevel(): number {
+    return this.zoom;
+  }
+
+  load(analysis: RecordingLevels | null): void {
+    this.analysis = analysis;
+    this.zoom = 1;
+    this.viewStart = 0;
+    this.setSelection(null);
+    this.render();
+  }
+
+  setPlayhead(time: number): void {
+    this.playhead = time;
+    // Follow playback when zoomed in and the playhead leaves the view.
+    const visible = this.visibleDuration;
+    if (time < this.viewStart || time > this.viewStart + visible) {
+      this.scrollTo(time - visible * 0.1);
+    }
+    this.render();
+  }
+
+  /** Zooms by `factor`, keeping the time at `anchor` in place. */
+  zoomBy(factor: number, anchor = this.selection?.start ?? this.playhead) {
+    if (!this.analysis) return;
+    const before = this.visibleDuration;
+    this.zoom = Math.min(MAX_ZOOM, Math.max(1, this.zoom * factor));
+    const after = this.visibleDuration;
+    const fraction = before > 0 ? (anchor - this.viewStart) / before : 0;
+    this.scrollTo(anchor - fraction * after);
+    this.render();
+  }
+
+  setCuts(cuts: TimeRange[]): void {
+    this.cuts = cuts;
+    this.render();
+  }
+
+  setSelection(selection: TimeRange | null): void {
+    this.selection = selection;
+    this.callbacks.onSelectionChange(selection);
+    this.render();
+  }
+
+  render(): void {
+    const ctx = prepareCanvas(this.canvas);
+    const analysis = this.analysis;
+    if (!ctx || !analysis) return;
+    const width = this.canvas.clientWidth;
+    const height = this.canvas.clientHeight;
+    const accent = getCssColor('--color-accent', '#007AFF');
+    const muted = getCssColor('--color-text-tertiary', '#999999');
+
+    ctx.fillStyle = getCssColor('--color-surface-hover', '#F0F0F0');
+    for (const cut of this.cuts) {
+      const x = this.toX(cut.start);
+      ctx.fillRect(x, 0, Math.max(1, this.toX(cut.end) - x), height);
+    }
+    if (this.selection) {
+      const x = this.toX(this.selection.start);
+      ctx.fillStyle = getCssColor('--color-surface-active', '#EAEAEA');
+      ctx.fillRect(x, 0, Math.max(1, this.toX(this.selection.end) - x), height);
+    }
+    const selection = this.selection;
+    drawLevelBars(
+      ctx,
+      analysis.levels,
+      this.viewStart / LEVEL_WINDOW_SECONDS,
+      (this.viewStart + this.visibleDuration) / LEVEL_WINDOW_SECONDS,
+      width,
+      height,
+      (window) => {
+        const time = window * LEVEL_WINDOW_SECONDS;
+        if (this.cuts.some((cut) => time >= cut.start && time < cut.end)) {
+          return muted;
+        }
+        const inSelection =
+          selection && time >= selection.start && time < selection.end;
+        return !selection || inSelection ? accent : muted;
+      },
+    );
+
+    // Time labels at the edges of the view, so zooming keeps its bearings.
+    ctx.fillStyle = muted;
+    ctx.font = '10px sans-serif';
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'left';
+    ctx.fillText(formatTimestamp(this.viewStart), 4, 4);
+    ctx.textAlign = 'right';
+    ctx.fillText(
+      formatTimestamp(this.viewStart + this.visibleDuration),
+      width - 4,
+      4,
+    );
+
+    const playheadX = this.toX(this.playhead);
+    if (playheadX >= 0 && playheadX <= width) {
+      ctx.fillStyle = getCssColor('--color-recording', '#ff3b30');
+      ctx.fillRect(Math.round(playheadX) - 1, 0, 2, height);
+    }
+  }
+
+  private get visibleDuration(): number {
+    return (this.analysis?.duration || 0) / this.zoom;
+  }
+
+  private scrollTo(time: number): void {
+    const duration = this.analysis?.duration || 0;
+    this.viewStart = Math.min(
+      Math.max(0, duration - this.visibleDuration),
+      Math.max(0, time),
+    );
+  }
+
+  private toX(time: number): number {
+    const visible = this.visibleDuration || 1;
+    return ((time - this.viewStart) / visible) * this.canvas.clientWidth;
+  }
+
+  private toTime(clientX: number): number {
+    const rect = this.canvas.getBoundingClientRect();
+    const fraction = (clientX - rect.left) / rect.width;
+    const time = this.viewStart + fraction * this.visibleDuration;
+    return Math.min(this.analysis?.duration || 0, Math.max(0, time));
+  }
+
+  private handleDrag(e: PointerEvent): void {
+    const anchor = this.dragAnchor;
+    if (!anchor || Math.abs(e.clientX - anchor.x) < DRAG_THRESHOLD_PX) return;
+    const time = this.toTime(e.clientX);
+    this.setSelection({
+      start: Math.min(anchor.time, time),
+      end: Math.max(anchor.time, time),
+    });
+  }
+
+  private handleRelease(e: PointerEvent): void {
+    const anchor = this.dragAnchor;
+    this.dragAnchor = null;
+    if (!anchor || !this.analysis) return;
+    if (Math.abs(e.clientX - anchor.x) < DRAG_THRESHOLD_PX) {
+      // A click inside the selection keeps it, so playback can be started
+      // from within the region before acting on it.
+      const inSelection =
+        this.selection &&
+        anchor.time >= this.selection.start &&
+        anchor.time <= this.selection.end;
+      if (!inSelection) this.setSelection(null);
+      this.callbacks.onSeek(anchor.time);
+    }
+  }
+
+  private handleWheel(e: WheelEvent): void {
+    if (!this.analysis) return;
+    if (e.ctrlKey || e.metaKey) {
+      e.preventDefault();
+      this.zoomBy(e.deltaY < 0 ? 1.25 : 0.8, this.toTime(e.clientX));
+      return;
+    }
+    if (this.zoom === 1) return;
+    e.preventDefault();
+    const delta = Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY;
+    const secondsPerPixel = this.visibleDuration / this.canvas.clientWidth;
+    this.scrollTo(this.viewStart + delta * secondsPerPixel);
+    this.render();
+  }
+}